@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { promisify } from "util";
+import { redisClient } from "./redis";
+import { Role } from "./users";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number
+) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+
+const FILE_URL_TTL_SECONDS = parseInt(process.env.FILE_URL_TTL_SECONDS || "900");
+// Expiry times are rounded up to this step so the same file keeps the same
+// URL for a while and browsers can cache it.
+const FILE_URL_ROUNDING_SECONDS = 300;
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_SECONDS || String(30 * 24 * 60 * 60)
+);
+
+function loadSecretKey(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production.");
+  }
+  console.warn(
+    "JWT_SECRET is not set; using a random secret. Tokens will not survive a restart."
+  );
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export const SECRET_KEY: string = loadSecretKey();
+
+// Stored as "scrypt$<salt hex>$<hash hex>".
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export const isPasswordHashed = (stored: string) =>
+  stored.startsWith(`${HASH_PREFIX}$`);
+
+// Accounts created before passwords were hashed still hold the plaintext;
+// those are compared directly, and the caller should re-hash on success.
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  if (!isPasswordHashed(stored)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  const [, saltHex, hashHex] = stored.split("$");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(password, Buffer.from(saltHex, "hex"), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// The role in the token is what the client shows; admin routes check the
+// account's current role instead.
+export function signAccessToken(username: string, role: Role): string {
+  return jwt.sign({ username, role }, SECRET_KEY, {
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions["expiresIn"],
+  });
+}
+
+// Refresh tokens are opaque; only their SHA-256 is kept in Redis.
+const tokenHash = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+const refreshTokenKey = (hash: string) => `refresh:${hash}`;
+// The hashes of the user's refresh tokens, so they can all be revoked when
+// the account is deleted. Entries for tokens that expired unused stay until
+// the set itself expires.
+const userRefreshTokensKey = (username: string) => `user:${username}:refresh_tokens`;
+
+export async function issueRefreshToken(username: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const hash = tokenHash(token);
+  await redisClient
+    .multi()
+    .set(refreshTokenKey(hash), username, { EX: REFRESH_TOKEN_TTL_SECONDS })
+    .sAdd(userRefreshTokensKey(username), hash)
+    .expire(userRefreshTokensKey(username), REFRESH_TOKEN_TTL_SECONDS)
+    .exec();
+  return token;
+}
+
+// Consumes a refresh token and returns its owner. Each token works once:
+// callers issue a new one in its place. A token missing from its owner's set
+// is refused, since the set is what revoking every token clears.
+export async function redeemRefreshToken(token: string): Promise<string | null> {
+  const hash = tokenHash(token);
+  const username = await redisClient.getDel(refreshTokenKey(hash));
+  if (!username) return null;
+  const tracked = await redisClient.sRem(userRefreshTokensKey(username), hash);
+  return tracked === 1 ? username : null;
+}
+
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const hash = tokenHash(token);
+  const username = await redisClient.getDel(refreshTokenKey(hash));
+  if (username) await redisClient.sRem(userRefreshTokensKey(username), hash);
+}
+
+// Revokes every refresh token the user holds.
+export async function revokeUserRefreshTokens(username: string): Promise<void> {
+  const hashes = await redisClient.sMembers(userRefreshTokensKey(username));
+  if (hashes.length > 0) await redisClient.del(hashes.map(refreshTokenKey));
+  await redisClient.del(userRefreshTokensKey(username));
+}
+
+const fileSigningKey = crypto
+  .createHmac("sha256", SECRET_KEY)
+  .update("file-urls")
+  .digest();
+
+const sign = (filename: string, expires: number) =>
+  crypto
+    .createHmac("sha256", fileSigningKey)
+    .update(`${filename}:${expires}`)
+    .digest("base64url");
+
+// A path that serves the file without an Authorization header until it expires.
+export function signFileUrl(filename: string): { url: string; expiresAt: number } {
+  const now = Math.floor(Date.now() / 1000);
+  const expires =
+    Math.ceil((now + FILE_URL_TTL_SECONDS) / FILE_URL_ROUNDING_SECONDS) *
+    FILE_URL_ROUNDING_SECONDS;
+  const url = `/images/${encodeURIComponent(filename)}/file?expires=${expires}&signature=${sign(filename, expires)}`;
+  return { url, expiresAt: expires * 1000 };
+}
+
+export function verifyFileSignature(
+  filename: string,
+  expires: unknown,
+  signature: unknown
+): boolean {
+  if (typeof expires !== "string" || typeof signature !== "string") return false;
+  const expiresAt = parseInt(expires);
+  if (!expiresAt || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(sign(filename, expiresAt));
+  const actual = Buffer.from(signature);
+  return (
+    expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  );
+}
@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import { redisClient } from "./redis";
+import { ImageOperation } from "./operations";
+import { Job, JobStatus, cancelJob, enqueueJob, getJob } from "./jobs";
+import { restoreImageStatus } from "./images";
+
+export const BATCH_MAX_IMAGES = parseInt(process.env.BATCH_MAX_IMAGES || "500");
+
+export type BatchStatus = "running" | "completed" | "failed" | "cancelled";
+
+// A batch as stored; its progress is worked out from the child jobs.
+interface BatchRecord {
+  id: string;
+  user: string;
+  operations: ImageOperation[];
+  job_ids: string[];
+  cancelled: boolean;
+  created_at: number;
+}
+
+export interface Batch {
+  id: string;
+  user: string;
+  operations: ImageOperation[];
+  status: BatchStatus;
+  total: number;
+  // Child jobs by status.
+  counts: Record<JobStatus, number>;
+  progress: number;
+  jobs: Pick<Job, "id" | "image_id" | "status" | "progress" | "error" | "output_filename">[];
+  created_at: number;
+}
+
+const batchKey = (batchId: string) => `batch:${batchId}`;
+export const userBatchesKey = (user: string) => `user:${user}:batches`;
+
+const FINISHED: JobStatus[] = ["completed", "failed", "cancelled"];
+
+async function getBatchRecord(batchId: string): Promise<BatchRecord | null> {
+  const hash = await redisClient.hGetAll(batchKey(batchId));
+  if (Object.keys(hash).length === 0) return null;
+  return {
+    id: hash.id,
+    user: hash.user,
+    operations: JSON.parse(hash.operations),
+    job_ids: JSON.parse(hash.job_ids),
+    cancelled: hash.cancelled === "true",
+    created_at: parseInt(hash.created_at),
+  };
+}
+
+function summarize(record: BatchRecord, jobs: Job[]): Batch {
+  const counts: Record<JobStatus, number> = {
+    queued: 0,
+    processing: 0,
+    retrying: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  let progress = 0;
+  for (const job of jobs) {
+    counts[job.status]++;
+    progress += FINISHED.includes(job.status) ? 100 : job.progress;
+  }
+  const finished = counts.completed + counts.failed + counts.cancelled;
+
+  let status: BatchStatus = "running";
+  if (finished === jobs.length) {
+    if (record.cancelled) status = "cancelled";
+    else if (counts.failed === jobs.length) status = "failed";
+    else status = "completed";
+  }
+
+  return {
+    id: record.id,
+    user: record.user,
+    operations: record.operations,
+    status,
+    total: jobs.length,
+    counts,
+    progress: jobs.length > 0 ? Math.floor(progress / jobs.length) : 100,
+    jobs: jobs.map(({ id, image_id, status, progress, error, output_filename }) => ({
+      id,
+      image_id,
+      status,
+      progress,
+      error,
+      output_filename,
+    })),
+    created_at: record.created_at,
+  };
+}
+
+export async function getBatch(batchId: string): Promise<Batch | null> {
+  const record = await getBatchRecord(batchId);
+  if (!record) return null;
+  const jobs = await Promise.all(record.job_ids.map(getJob));
+  return summarize(
+    record,
+    jobs.filter((job): job is Job => job !== null)
+  );
+}
+
+// The user's most recent batches, newest first.
+export async function listUserBatches(user: string, limit: number): Promise<Batch[]> {
+  const batchIds = await redisClient.zRange(userBatchesKey(user), 0, limit - 1, {
+    REV: true,
+  });
+  const batches = await Promise.all(batchIds.map(getBatch));
+  return batches.filter((batch): batch is Batch => batch !== null);
+}
+
+// Queues one child job per image, each starting from the image's current
+// version. Images that no longer exist or belong to someone else are skipped,
+// and if that leaves none no batch is created and null is returned.
+export async function createBatch(input: {
+  user: string;
+  imageIds: string[];
+  operations: ImageOperation[];
+}): Promise<Batch | null> {
+  const batchId = crypto.randomBytes(12).toString("hex");
+  const now = Date.now();
+
+  const jobIds: string[] = [];
+  for (const imageId of new Set(input.imageIds)) {
+    const image = await redisClient.hGetAll(imageId);
+    if (image.user !== input.user) continue;
+    const jobId = await enqueueJob({
+      imageId,
+      user: input.user,
+      source: image.current_version || image.unique_filename,
+      operations: input.operations,
+      batchId,
+    });
+    await redisClient.hSet(imageId, { status: "processing", latest_job: jobId });
+    jobIds.push(jobId);
+  }
+  if (jobIds.length === 0) return null;
+
+  await redisClient
+    .multi()
+    .hSet(batchKey(batchId), {
+      id: batchId,
+      user: input.user,
+      operations: JSON.stringify(input.operations),
+      job_ids: JSON.stringify(jobIds),
+      cancelled: "false",
+      created_at: now,
+    })
+    .zAdd(userBatchesKey(input.user), { score: now, value: batchId })
+    .exec();
+
+  return (await getBatch(batchId))!;
+}
+
+// Cancels every child job that hasn't finished. Jobs already running stop
+// before their next operation.
+export async function cancelBatch(batchId: string): Promise<Batch | null> {
+  const record = await getBatchRecord(batchId);
+  if (!record) return null;
+  await redisClient.hSet(batchKey(batchId), "cancelled", "true");
+  await Promise.all(
+    record.job_ids.map(async (jobId) => {
+      if ((await cancelJob(jobId)) !== "cancelled") return;
+      const job = await getJob(jobId);
+      if (job) await restoreImageStatus(job.image_id);
+    })
+  );
+  return getBatch(batchId);
+}
+
+// Deletes the records of the user's batches; their jobs are deleted with
+// the user's other jobs.
+export async function deleteUserBatches(user: string): Promise<void> {
+  const batchIds = await redisClient.zRange(userBatchesKey(user), 0, -1);
+  if (batchIds.length > 0) await redisClient.del(batchIds.map(batchKey));
+}
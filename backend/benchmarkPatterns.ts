@@ -0,0 +1,66 @@
+import sharp from "sharp";
+import { validateOperations } from "./operations";
+import { ProceduralOperation, patternSettings, renderPattern } from "./patterns";
+import { renderRows } from "./procedural";
+import { RENDER_THREADS } from "./workerPool";
+
+// Compares rendering each pattern on the event loop, as the effects did
+// before the worker pool, with rendering it on the pool, and reports how
+// long the event loop was blocked during each:
+//   npm run benchmark:patterns -- [width] [height] [runs]
+//
+// The baseline is the renderer as it was just before the pool: one
+// renderRows call over every row, encoded on the main thread. Moving to the
+// pool only changed that loop to start and end at a band's rows, so this
+// measures the same per-pixel code and the difference is where it runs.
+const width = parseInt(process.argv[2] || "2000");
+const height = parseInt(process.argv[3] || "1500");
+const runs = parseInt(process.argv[4] || "3");
+
+// Average time per run, and the longest the event loop went without running
+// a 10ms timer.
+async function measure(render: () => Promise<unknown>): Promise<{ ms: number; maxStallMs: number }> {
+  let last = performance.now();
+  let maxStallMs = 0;
+  const ticker = setInterval(() => {
+    const now = performance.now();
+    maxStallMs = Math.max(maxStallMs, now - last - 10);
+    last = now;
+  }, 10);
+  const start = performance.now();
+  for (let i = 0; i < runs; i++) await render();
+  const ms = (performance.now() - start) / runs;
+  // Let the ticker catch up on a stall that lasted until the end.
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  clearInterval(ticker);
+  return { ms, maxStallMs };
+}
+
+async function main(): Promise<void> {
+  console.log(`${width}x${height}, ${runs} runs each, ${RENDER_THREADS} threads`);
+  // Start the threads so the first pooled run doesn't pay for it.
+  const warmup = validateOperations([{ type: "plasma" }]).operations[0] as ProceduralOperation;
+  await renderPattern(warmup, 64, 64);
+
+  for (const type of ["fractal_noise", "plasma", "holographic", "aurora"]) {
+    const op = validateOperations([{ type }]).operations[0] as ProceduralOperation;
+    const settings = patternSettings(op);
+    const inline = await measure(() =>
+      sharp(Buffer.from(renderRows({ settings, width, height, startRow: 0, endRow: height })), {
+        raw: { width, height, channels: 4 },
+      })
+        .png()
+        .toBuffer()
+    );
+    const pooled = await measure(() => renderPattern(op, width, height, Date.now() + 10 * 60 * 1000));
+    const format = ({ ms, maxStallMs }: { ms: number; maxStallMs: number }) =>
+      `${ms.toFixed(0).padStart(6)} ms/run, event loop blocked up to ${maxStallMs.toFixed(0)} ms`;
+    console.log(`${type.padEnd(14)} before the pool ${format(inline)}`);
+    console.log(`${"".padEnd(14)} pooled          ${format(pooled)}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
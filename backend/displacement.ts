@@ -0,0 +1,49 @@
+import sharp from "sharp";
+import { ImageOperation, validateOperations } from "./operations";
+import { DisplacementBand, DisplacementSettings } from "./displacementMaps";
+import { RENDER_TIME_BUDGET_MS, pixelPool, rowBands } from "./workerPool";
+
+export type DisplacementOperation = Extract<
+  ImageOperation,
+  { type: "vortex" | "chromatic_aberration" | "lens" | "ripple" | "pinch" }
+>;
+
+// Steps saved before vortex and chromatic aberration were displacements lack
+// their parameters; those use the schema's defaults.
+export function displacementSettings(op: DisplacementOperation): DisplacementSettings {
+  const defaults = validateOperations([{ type: op.type }]).operations[0];
+  return { ...defaults, ...op } as DisplacementSettings;
+}
+
+// Moves the image's pixels as `op` describes. The source is shared with the
+// pool's threads, which each resample a band of rows; throws
+// RenderTimeoutError if they aren't all done by `deadline`. Alpha is carried
+// through, and an image without it comes back without it.
+export async function displace(
+  image: sharp.Sharp,
+  op: DisplacementOperation,
+  deadline: number = Date.now() + RENDER_TIME_BUDGET_MS
+): Promise<sharp.Sharp> {
+  const { hasAlpha } = await image.metadata();
+  const { data, info } = await image
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const source = new SharedArrayBuffer(data.length);
+  new Uint8Array(source).set(data);
+
+  const settings = displacementSettings(op);
+  const output = Buffer.alloc(width * height * 4);
+  await Promise.all(
+    rowBands(height).map(async ({ startRow, endRow }) => {
+      const band: DisplacementBand = { settings, width, height, source, startRow, endRow };
+      const pixels = await pixelPool.run({ kind: "displacement", ...band }, deadline);
+      output.set(pixels, startRow * width * 4);
+    })
+  );
+
+  const result = sharp(output, { raw: { width, height, channels: 4 } });
+  return hasAlpha ? result : result.removeAlpha();
+}
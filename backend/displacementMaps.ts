@@ -0,0 +1,167 @@
+// Everything a displacement depends on, resolved from the operation.
+// Centers are shares of the image's width and height, radii and lengths
+// shares of its shorter side.
+export type DisplacementSettings =
+  | { type: "vortex"; centerX: number; centerY: number; radius: number; strength: number }
+  | { type: "chromatic_aberration"; amount: number }
+  | { type: "lens"; amount: number }
+  | { type: "ripple"; centerX: number; centerY: number; amplitude: number; wavelength: number }
+  | { type: "pinch"; centerX: number; centerY: number; radius: number; amount: number };
+
+// Rows `startRow` up to `endRow` of the displaced image. `source` holds the
+// whole `width` × `height` image as RGBA and is shared by every band.
+export interface DisplacementBand {
+  settings: DisplacementSettings;
+  width: number;
+  height: number;
+  source: SharedArrayBuffer;
+  startRow: number;
+  endRow: number;
+}
+
+// Bilinear sample of the RGBA image at (x, y), in pixel units with pixel
+// centers at .5, written to out[offset..offset + 3]. Colors are weighted by
+// alpha so transparent pixels don't darken their neighbours; positions
+// outside the image take the nearest edge pixel.
+function sample(
+  source: Uint8Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  out: Uint8Array,
+  offset: number
+): void {
+  const fx = Math.min(width - 1, Math.max(0, x - 0.5));
+  const fy = Math.min(height - 1, Math.max(0, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const taps = [(y0 * width + x0) * 4, (y0 * width + x1) * 4, (y1 * width + x0) * 4, (y1 * width + x1) * 4];
+  const weights = [(1 - tx) * (1 - ty), tx * (1 - ty), (1 - tx) * ty, tx * ty];
+  let alpha = 0;
+  for (let i = 0; i < 4; i++) alpha += weights[i] * source[taps[i] + 3];
+  for (let c = 0; c < 3; c++) {
+    let sum = 0;
+    for (let i = 0; i < 4; i++) {
+      sum += weights[i] * source[taps[i] + c] * (alpha > 0 ? source[taps[i] + 3] : 1);
+    }
+    out[offset + c] = Math.round(alpha > 0 ? sum / alpha : sum);
+  }
+  out[offset + 3] = Math.round(alpha);
+}
+
+// Maps a destination pixel, relative to the effect's center, to the offset
+// it is sampled from, as a factor to scale it by and an angle to turn it by.
+type Mapping = (dx: number, dy: number, distance: number) => [scale: number, angle: number];
+
+function mapping(settings: DisplacementSettings, width: number, height: number): Mapping {
+  const shorter = Math.min(width, height);
+  const halfDiagonal = Math.hypot(width / 2, height / 2);
+  switch (settings.type) {
+    case "vortex": {
+      // Turns most at the center, easing out to nothing at the radius.
+      const radius = settings.radius * shorter;
+      const strength = (settings.strength * Math.PI) / 180;
+      return (dx, dy, distance) => {
+        if (distance >= radius) return [1, 0];
+        const falloff = 1 - distance / radius;
+        return [1, strength * falloff * falloff];
+      };
+    }
+    case "lens": {
+      // Normalized so the corners stay put: with a positive amount the
+      // middle bulges out (barrel), with a negative one it sinks in
+      // (pincushion).
+      const k = settings.amount;
+      return (dx, dy, distance) => {
+        const r = distance / halfDiagonal;
+        return [(1 + k * r * r) / (1 + k), 0];
+      };
+    }
+    case "ripple": {
+      const amplitude = (settings.amplitude / 100) * shorter;
+      const wavelength = (settings.wavelength / 100) * shorter;
+      return (dx, dy, distance) => {
+        if (distance === 0) return [1, 0];
+        const shift = amplitude * Math.sin((2 * Math.PI * distance) / wavelength);
+        return [(distance + shift) / distance, 0];
+      };
+    }
+    case "pinch": {
+      // Pulls the area inside the radius towards its center, or with a
+      // negative amount pushes it out.
+      const radius = settings.radius * shorter;
+      const amount = settings.amount;
+      return (dx, dy, distance) => {
+        if (distance >= radius || distance === 0) return [1, 0];
+        return [Math.pow(Math.sin((Math.PI / 2) * (distance / radius)), -amount), 0];
+      };
+    }
+    case "chromatic_aberration":
+      // Sampled per channel in displaceRows.
+      return () => [1, 0];
+  }
+}
+
+// The band's pixels as RGBA. Every output pixel is sampled from the source
+// image, so nothing is left uncovered and alpha moves with the colors. This
+// runs in the pixel worker threads, which is why the module imports nothing.
+export function displaceRows({
+  settings,
+  width,
+  height,
+  source,
+  startRow,
+  endRow,
+}: DisplacementBand): Uint8Array {
+  const pixels = new Uint8Array(source);
+  const data = new Uint8Array(width * (endRow - startRow) * 4);
+  const centerX = "centerX" in settings ? settings.centerX * width : width / 2;
+  const centerY = "centerY" in settings ? settings.centerY * height : height / 2;
+
+  if (settings.type === "chromatic_aberration") {
+    // Red is magnified and blue shrunk about the center, by `amount`
+    // percent at the corners; green and alpha stay where they are.
+    const spread = settings.amount / 100;
+    const scratch = new Uint8Array(4);
+    for (let y = startRow; y < endRow; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = x + 0.5 - centerX;
+        const dy = y + 0.5 - centerY;
+        const idx = ((y - startRow) * width + x) * 4;
+        sample(pixels, width, height, x + 0.5, y + 0.5, data, idx);
+        sample(pixels, width, height, centerX + dx * (1 - spread), centerY + dy * (1 - spread), scratch, 0);
+        data[idx] = scratch[0];
+        sample(pixels, width, height, centerX + dx * (1 + spread), centerY + dy * (1 + spread), scratch, 0);
+        data[idx + 2] = scratch[2];
+      }
+    }
+    return data;
+  }
+
+  const map = mapping(settings, width, height);
+  for (let y = startRow; y < endRow; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - centerX;
+      const dy = y + 0.5 - centerY;
+      const [scale, angle] = map(dx, dy, Math.hypot(dx, dy));
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      sample(
+        pixels,
+        width,
+        height,
+        centerX + scale * (dx * cos - dy * sin),
+        centerY + scale * (dx * sin + dy * cos),
+        data,
+        ((y - startRow) * width + x) * 4
+      );
+    }
+  }
+  return data;
+}
@@ -0,0 +1,168 @@
+import path from "path";
+import { callbackify } from "util";
+import yazl from "yazl";
+import { redisClient } from "./redis";
+import { storage } from "./storage";
+import { Version, parseVersions } from "./versions";
+
+// Which processed versions go into an export: every one, the image's current
+// version, none, or the listed stored filenames.
+export type VersionSelection = "all" | "current" | "none" | string[];
+
+export interface ExportOptions {
+  original: boolean;
+  versions: VersionSelection;
+}
+
+// Reads ?original=false and ?versions=all|current|none|<filename>,<filename>.
+export function parseExportOptions(query: Record<string, unknown>): {
+  options: ExportOptions;
+  errors: Record<string, string>;
+} {
+  const errors: Record<string, string> = {};
+  const versions = typeof query.versions === "string" ? query.versions : "all";
+  const selection: VersionSelection = ["all", "current", "none"].includes(versions)
+    ? (versions as VersionSelection)
+    : versions.split(",").map((filename) => path.basename(filename.trim())).filter(Boolean);
+  if (Array.isArray(selection) && selection.length === 0) {
+    errors.versions = "must be all, current, none or a list of version filenames";
+  }
+  if (query.original !== undefined && !["true", "false"].includes(String(query.original))) {
+    errors.original = "must be true or false";
+  }
+  return {
+    options: { original: query.original !== "false", versions: selection },
+    errors,
+  };
+}
+
+interface ManifestVersion extends Version {
+  // Where the file is in the archive, or null if it wasn't found in storage.
+  path: string | null;
+}
+
+interface ManifestImage {
+  id: string;
+  original_filename: string;
+  uploaded_at: number;
+  size: number;
+  tags: string[];
+  current_version: string | null;
+  original: { filename: string; path: string | null } | null;
+  versions: ManifestVersion[];
+}
+
+// "Holiday Photo.JPG" -> "Holiday Photo"; names are otherwise kept as they
+// were uploaded, minus anything that would make a path.
+const baseName = (filename: string) =>
+  path.parse(filename.replace(/[\\/\u0000-\u001f]/g, "_")).name || "image";
+
+// "holiday-v2-resize-sepia.png": numbered by position in the image's history
+// and named after the operations that produced it.
+function versionName(originalFilename: string, version: Version, index: number): string {
+  const steps = version.operations.map((op) => op.type).join("-") || "edit";
+  return `${baseName(originalFilename)}-v${index + 1}-${steps}${path.extname(version.filename)}`;
+}
+
+function selectVersions(
+  versions: Version[],
+  selection: VersionSelection,
+  current: string | undefined
+): Version[] {
+  if (selection === "all") return versions;
+  if (selection === "none") return [];
+  if (selection === "current") return versions.filter((version) => version.filename === current);
+  return versions.filter((version) => selection.includes(version.filename));
+}
+
+// Stored filenames in `selection` that aren't versions of the image.
+export function unknownVersions(
+  metadata: Record<string, string>,
+  selection: VersionSelection
+): string[] {
+  if (!Array.isArray(selection)) return [];
+  const filenames = parseVersions(metadata).map((version) => version.filename);
+  return selection.filter((filename) => !filenames.includes(filename));
+}
+
+// Builds exports one image at a time into a ZIP that streams as it goes.
+// Files are read from storage only when the archive reaches them.
+export class ImageExport {
+  readonly zip = new yazl.ZipFile();
+  private readonly manifest: ManifestImage[] = [];
+  private readonly usedFolders = new Set<string>();
+
+  // With `useFolders` every image gets its own directory, for library exports.
+  constructor(
+    private readonly options: ExportOptions,
+    private readonly useFolders: boolean
+  ) {}
+
+  // "holiday/", or "holiday (2)/" if another image already took the name.
+  private folderFor(originalFilename: string): string {
+    if (!this.useFolders) return "";
+    const base = baseName(originalFilename);
+    let folder = base;
+    for (let n = 2; this.usedFolders.has(folder.toLowerCase()); n++) {
+      folder = `${base} (${n})`;
+    }
+    this.usedFolders.add(folder.toLowerCase());
+    return `${folder}/`;
+  }
+
+  // Queues the file under `archivePath` if it is still in storage.
+  private async addFile(key: string, archivePath: string): Promise<string | null> {
+    if (!(await storage.exists(key))) return null;
+    // Images are already compressed; storing them as-is is much faster.
+    this.zip.addReadStreamLazy(
+      archivePath,
+      { compress: false },
+      callbackify(() => storage.getStream(key))
+    );
+    return archivePath;
+  }
+
+  async addImage(imageId: string): Promise<void> {
+    const metadata = await redisClient.hGetAll(imageId);
+    if (Object.keys(metadata).length === 0) return;
+
+    const folder = this.folderFor(metadata.original_filename);
+    const originalName =
+      baseName(metadata.original_filename) + path.extname(metadata.unique_filename);
+    const original = this.options.original
+      ? {
+          filename: metadata.unique_filename,
+          path: await this.addFile(metadata.unique_filename, folder + originalName),
+        }
+      : null;
+
+    const allVersions = parseVersions(metadata);
+    const versions: ManifestVersion[] = [];
+    for (const version of selectVersions(
+      allVersions,
+      this.options.versions,
+      metadata.current_version
+    )) {
+      const name = versionName(metadata.original_filename, version, allVersions.indexOf(version));
+      versions.push({ ...version, path: await this.addFile(version.filename, folder + name) });
+    }
+
+    this.manifest.push({
+      id: metadata.unique_filename,
+      original_filename: metadata.original_filename,
+      uploaded_at: parseInt(metadata.uploaded_at),
+      size: parseInt(metadata.size),
+      tags: JSON.parse(metadata.tags || "[]"),
+      current_version: metadata.current_version || null,
+      original,
+      versions,
+    });
+  }
+
+  // Adds manifest.json and closes the archive.
+  finish(user: string): void {
+    const manifest = { exported_at: Date.now(), user, images: this.manifest };
+    this.zip.addBuffer(Buffer.from(JSON.stringify(manifest, null, 2)), "manifest.json");
+    this.zip.end();
+  }
+}
@@ -0,0 +1,39 @@
+import { redisClient } from "./redis";
+import { versionFilenames } from "./versions";
+
+// Maps a stored filename (original or processed) to the image record that owns it.
+const fileKey = (filename: string) => `file:${filename}`;
+
+export async function registerFile(filename: string, imageId: string): Promise<void> {
+  await redisClient.set(fileKey(filename), imageId);
+}
+
+export async function unregisterFiles(filenames: string[]): Promise<void> {
+  if (filenames.length > 0) {
+    await redisClient.del(filenames.map(fileKey));
+  }
+}
+
+// Returns the owning user of a stored file, or null if no image claims it.
+export async function fileOwner(filename: string): Promise<string | null> {
+  const imageId = await redisClient.get(fileKey(filename));
+  if (!imageId) return null;
+  return (await redisClient.hGet(imageId, "user")) ?? null;
+}
+
+// Links files of images uploaded before ownership was tracked. Uses SCAN so
+// Redis is not blocked on large keyspaces.
+export async function backfillFileOwners(): Promise<void> {
+  for await (const keys of redisClient.scanIterator({ MATCH: "image:*", COUNT: 100 })) {
+    for (const imageId of keys) {
+      const metadata = await redisClient.hGetAll(imageId);
+      const filenames = [
+        metadata.unique_filename,
+        ...versionFilenames(metadata),
+      ].filter(Boolean);
+      for (const filename of filenames) {
+        await redisClient.set(fileKey(filename), imageId, { NX: true });
+      }
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import path from "path";
+import { redisClient } from "./redis";
+import { TagQuery, matchesTagQuery, normalizeTag, parseTagQuery } from "./tags";
+import { parseVersions } from "./versions";
+
+export const SORT_FIELDS = ["uploaded_at", "original_filename", "size"] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+// Per-user sorted sets over the user's image ids ("image:<filename>").
+// uploaded_at and size are scored by value; original_filename has every
+// score at 0 and members of the form "<lowercased name>\0<image id>" so
+// Redis orders them lexicographically.
+const indexKey = (user: string, field: SortField) => `user:${user}:images:${field}`;
+
+export const userImageIndexKeys = (user: string) => SORT_FIELDS.map((field) => indexKey(user, field));
+
+const filenameMember = (originalFilename: string, imageId: string) =>
+  `${originalFilename.toLowerCase()}\u0000${imageId}`;
+
+const imageIdFromMember = (field: SortField, member: string) =>
+  field === "original_filename" ? member.slice(member.lastIndexOf("\u0000") + 1) : member;
+
+// "photo.JPG" -> "jpeg"; used for the format filter.
+export function formatFromFilename(filename: string): string {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  return extension === "jpg" ? "jpeg" : extension;
+}
+
+interface IndexedImage {
+  imageId: string;
+  originalFilename: string;
+  uploadedAt: number;
+  size: number;
+}
+
+// An image record as the API returns it, with its JSON fields parsed.
+// File metadata can be large; it is served by GET /images/:id/metadata.
+export function toImageResponse(metadata: Record<string, string>) {
+  const { file_metadata, ...fields } = metadata;
+  return {
+    ...fields,
+    processed_versions: parseVersions(metadata),
+    tags: JSON.parse(metadata.tags || "[]") as string[],
+  };
+}
+
+// Only writes to an image that still exists, so an image deleted while its
+// job ran isn't brought back as a record holding just a status.
+const SET_STATUS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'status', ARGV[1])
+return 1
+`;
+
+export async function setImageStatus(imageId: string, status: string): Promise<void> {
+  await redisClient.eval(SET_STATUS_SCRIPT, { keys: [imageId], arguments: [status] });
+}
+
+// Puts an image whose job was cancelled back to how it was before processing.
+export async function restoreImageStatus(imageId: string): Promise<void> {
+  const versions = await redisClient.hGet(imageId, "processed_versions");
+  if (versions === null) return;
+  await setImageStatus(imageId, JSON.parse(versions).length > 0 ? "completed" : "uploaded");
+}
+
+export async function indexImage(user: string, image: IndexedImage): Promise<void> {
+  await redisClient
+    .multi()
+    .zAdd(indexKey(user, "uploaded_at"), { score: image.uploadedAt, value: image.imageId })
+    .zAdd(indexKey(user, "size"), { score: image.size, value: image.imageId })
+    .zAdd(indexKey(user, "original_filename"), {
+      score: 0,
+      value: filenameMember(image.originalFilename, image.imageId),
+    })
+    .exec();
+}
+
+export async function unindexImage(
+  user: string,
+  imageId: string,
+  originalFilename: string
+): Promise<void> {
+  await redisClient
+    .multi()
+    .zRem(indexKey(user, "uploaded_at"), imageId)
+    .zRem(indexKey(user, "size"), imageId)
+    .zRem(indexKey(user, "original_filename"), filenameMember(originalFilename, imageId))
+    .exec();
+}
+
+export async function countImages(user: string): Promise<number> {
+  return redisClient.zCard(indexKey(user, "uploaded_at"));
+}
+
+// Adds images stored before the indexes existed. Their upload time and size
+// were never recorded, so they sort as the oldest and smallest.
+export async function backfillImageIndexes(): Promise<void> {
+  for await (const keys of redisClient.scanIterator({ MATCH: "image:*", COUNT: 100 })) {
+    for (const imageId of keys) {
+      const metadata = await redisClient.hGetAll(imageId);
+      if (!metadata.user) continue;
+      const indexed = await redisClient.zScore(indexKey(metadata.user, "uploaded_at"), imageId);
+      if (indexed !== null) continue;
+      await indexImage(metadata.user, {
+        imageId,
+        originalFilename: metadata.original_filename || "",
+        uploadedAt: parseInt(metadata.uploaded_at || "0"),
+        size: parseInt(metadata.size || "0"),
+      });
+    }
+  }
+}
+
+export interface ImageFilters {
+  status?: string;
+  tag?: string;
+  tagQuery?: TagQuery;
+  format?: string;
+  from?: number;
+  to?: number;
+}
+
+const IMAGE_STATUSES = ["uploaded", "processing", "completed", "failed"];
+
+// Reads filters from query-string style input (status, tag, q, format, from,
+// to). With `requireQuery` the tag query `q` must be present.
+export function parseImageFilters(
+  input: Record<string, unknown>,
+  requireQuery: boolean
+): { filters: ImageFilters; errors: Record<string, string> } {
+  const text = (name: string) =>
+    typeof input[name] === "string" && input[name] ? (input[name] as string) : undefined;
+  const status = text("status");
+  const tag = text("tag");
+  const q = text("q");
+  const format = text("format");
+  const from = text("from") ? Date.parse(text("from")!) : undefined;
+  const to = text("to") ? Date.parse(text("to")!) : undefined;
+
+  const errors: Record<string, string> = {};
+  if (status && !IMAGE_STATUSES.includes(status)) {
+    errors.status = `must be one of: ${IMAGE_STATUSES.join(", ")}`;
+  }
+  if (from !== undefined && isNaN(from)) errors.from = "must be a date";
+  if (to !== undefined && isNaN(to)) errors.to = "must be a date";
+
+  const filters: ImageFilters = { status, format: format?.toLowerCase(), from, to };
+  if (tag) {
+    try {
+      filters.tag = normalizeTag(tag);
+    } catch (err) {
+      errors.tag = (err as Error).message;
+    }
+  }
+  if (q || requireQuery) {
+    try {
+      filters.tagQuery = parseTagQuery(q || "");
+    } catch (err) {
+      errors.q = (err as Error).message;
+    }
+  }
+  return { filters, errors };
+}
+
+export interface ListImagesOptions {
+  sortBy: SortField;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: string;
+  filters: ImageFilters;
+}
+
+interface CursorPosition {
+  member: string;
+  score: number;
+}
+
+export class InvalidCursorError extends Error {}
+
+const encodeCursor = (position: CursorPosition) =>
+  Buffer.from(JSON.stringify(position)).toString("base64url");
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof position.member === "string" && typeof position.score === "number") {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new InvalidCursorError("Invalid cursor.");
+}
+
+// Rank (in the requested order) of the first entry after `position`. If the
+// entry the cursor points at has since been deleted, counts the entries that
+// sort before where it was instead.
+async function rankAfter(
+  key: string,
+  field: SortField,
+  descending: boolean,
+  position: CursorPosition
+): Promise<number> {
+  const rank = descending
+    ? await redisClient.zRevRank(key, position.member)
+    : await redisClient.zRank(key, position.member);
+  if (rank !== null) return rank + 1;
+
+  if (field === "original_filename") {
+    return descending
+      ? redisClient.zLexCount(key, `(${position.member}`, "+")
+      : redisClient.zLexCount(key, "-", `(${position.member}`);
+  }
+  return descending
+    ? redisClient.zCount(key, `(${position.score}`, "+inf")
+    : redisClient.zCount(key, "-inf", `(${position.score}`);
+}
+
+function matchesFilters(metadata: Record<string, string>, filters: ImageFilters): boolean {
+  if (filters.status && metadata.status !== filters.status) return false;
+  if (filters.format && formatFromFilename(metadata.unique_filename) !== filters.format) {
+    return false;
+  }
+  const tags: string[] = JSON.parse(metadata.tags || "[]");
+  if (filters.tag && !tags.includes(filters.tag)) return false;
+  if (filters.tagQuery && !matchesTagQuery(filters.tagQuery, tags)) return false;
+  const uploadedAt = parseInt(metadata.uploaded_at || "0");
+  if (filters.from !== undefined && uploadedAt < filters.from) return false;
+  if (filters.to !== undefined && uploadedAt > filters.to) return false;
+  return true;
+}
+
+const BATCH_SIZE = 50;
+
+// Walks the chosen index from the cursor, loading image records in batches
+// and applying the filters, until `limit` matches are found or the index
+// runs out. The returned cursor points at the last entry examined.
+export async function listImages(
+  user: string,
+  options: ListImagesOptions
+): Promise<{ images: Record<string, string>[]; nextCursor: string | null }> {
+  const key = indexKey(user, options.sortBy);
+  const descending = options.order === "desc";
+  let position = options.cursor ? decodeCursor(options.cursor) : null;
+  let start = position ? await rankAfter(key, options.sortBy, descending, position) : 0;
+  const images: Record<string, string>[] = [];
+  let examinedAll = false;
+
+  while (images.length < options.limit) {
+    const batch = await redisClient.zRangeWithScores(
+      key,
+      start,
+      start + BATCH_SIZE - 1,
+      descending ? { REV: true } : undefined
+    );
+    const records = await Promise.all(
+      batch.map((entry) => redisClient.hGetAll(imageIdFromMember(options.sortBy, entry.value)))
+    );
+
+    let i = 0;
+    for (; i < batch.length && images.length < options.limit; i++) {
+      position = { member: batch[i].value, score: batch[i].score };
+      if (Object.keys(records[i]).length > 0 && matchesFilters(records[i], options.filters)) {
+        images.push(records[i]);
+      }
+    }
+
+    if (batch.length < BATCH_SIZE && i === batch.length) {
+      examinedAll = true;
+      break;
+    }
+    start += BATCH_SIZE;
+  }
+
+  return {
+    images,
+    nextCursor: examinedAll || !position ? null : encodeCursor(position),
+  };
+}
+
+// Image ids ("image:<filename>") of the user's images matching `filters`,
+// oldest first, up to `limit`.
+export async function findImageIds(
+  user: string,
+  filters: ImageFilters,
+  limit: number
+): Promise<string[]> {
+  const imageIds: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listImages(user, {
+      sortBy: "uploaded_at",
+      order: "asc",
+      limit: Math.min(100, limit - imageIds.length),
+      cursor,
+      filters,
+    });
+    imageIds.push(...page.images.map((image) => `image:${image.unique_filename}`));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && imageIds.length < limit);
+  return imageIds;
+}
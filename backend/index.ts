@@ -2,205 +2,609 @@ import express, { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import bodyParser from "body-parser";
 import multer from "multer";
-import sharp, { BoolEnum } from "sharp";
-import fs from "fs";
-import crypto from "crypto";
 import cors from "cors";
-import * as redis from "redis";
 import path from "path";
-import FormData from 'form-data'; 
-import axios from "axios";
+import sharp from "sharp";
 import dotenv from 'dotenv';
 dotenv.config();
-
-interface ImageOperation {
-  type:
-  | "sharpen"
-  | "composite"
-  | "tint"
-  | "negate"
-  | "convolve"
-  | "median"
-  | "recomb"
-  | "fractal_noise"
-  | "chromatic_aberration"
-  | "oil_painting"
-  | "holographic"
-  | "edge_enhance_extreme"
-  | "vortex"
-  | "plasma"
-  | "aurora"
-
-  width?: number;
-  height?: number;
-  sigma?: number;
-  angle?: number;
-}
+import {
+  ImageOperation,
+  operationSchemas,
+  validateOperations,
+} from "./operations";
+import { redisClient, connectToRedis } from "./redis";
+import {
+  SECRET_KEY,
+  hashPassword,
+  isPasswordHashed,
+  issueRefreshToken,
+  redeemRefreshToken,
+  revokeRefreshToken,
+  signAccessToken,
+  signFileUrl,
+  verifyFileSignature,
+  verifyPassword,
+} from "./auth";
+import {
+  backfillFileOwners,
+  fileOwner,
+  unregisterFiles,
+} from "./files";
+import { FileNotFoundError, multerStorage, readToBuffer, storage } from "./storage";
+import {
+  ImageFilters,
+  InvalidCursorError,
+  SORT_FIELDS,
+  SortField,
+  backfillImageIndexes,
+  countImages,
+  findImageIds,
+  listImages,
+  parseImageFilters,
+  restoreImageStatus,
+  toImageResponse,
+  unindexImage,
+} from "./images";
+import {
+  cancelJob,
+  deleteUserJobs,
+  enqueueJob,
+  getJob,
+  listUserJobs,
+  onJobEvent,
+  queueSnapshot,
+} from "./jobs";
+import {
+  BATCH_MAX_IMAGES,
+  cancelBatch,
+  createBatch,
+  deleteUserBatches,
+  getBatch,
+  listUserBatches,
+} from "./batches";
+import {
+  ImageValidationError,
+  MAX_IMAGE_BYTES,
+  MAX_INPUT_PIXELS,
+  validateImage,
+} from "./validation";
+import { ExportOptions, ImageExport, parseExportOptions, unknownVersions } from "./exports";
+import { PREVIEW_DEFAULT_SIZE, PREVIEW_MAX_SIZE, renderPreview } from "./previews";
+import {
+  MAX_WATERMARKS,
+  WatermarkOperation,
+  applyWatermark,
+  countWatermarks,
+  createWatermark,
+  deleteWatermark,
+  foreignWatermarks,
+  getWatermark,
+  getWatermarkDefaults,
+  listWatermarks,
+  setWatermarkDefaults,
+} from "./watermarks";
+import {
+  UPLOAD_ERROR_STATUS,
+  UPLOAD_MAX_FILES,
+  UPLOAD_MAX_TOTAL_BYTES,
+  UploadBudget,
+  UploadResult,
+  acceptUploadedFile,
+  chargeQuota,
+  hasUploadableExtension,
+  isZipUpload,
+  releaseQuota,
+  storageFilename,
+  storeZipEntries,
+} from "./uploads";
+import {
+  Preset,
+  createPreset,
+  deletePreset,
+  getPreset,
+  getUsablePreset,
+  listPresets,
+  renderPresetThumbnail,
+  updatePreset,
+  validatePresetFields,
+} from "./presets";
+import {
+  buildLineage,
+  descendantsOf,
+  parseVersions,
+  removeVersions,
+  versionFilenames,
+} from "./versions";
+import {
+  MAX_TAGS_PER_IMAGE,
+  listUserTags,
+  normalizeTag,
+  rebuildTagCounts,
+  updateImageTags,
+} from "./tags";
+import {
+  encodeWithMetadata,
+  extractMetadata,
+  getMetadataDefaults,
+  needsStripping,
+  orientedImage,
+  parseMetadataOptions,
+  setMetadataDefaults,
+} from "./metadata";
+import {
+  PLANS,
+  Plan,
+  QuotaExceededError,
+  addProcessingTime,
+  addStoredBytes,
+  backfillStorageUsage,
+  checkProcessingQuota,
+  getUsage,
+  remainingUploads,
+  setUserPlan,
+} from "./quotas";
+import {
+  RATE_LIMIT_POLICIES,
+  clearLoginFailures,
+  loginLockoutSeconds,
+  rateLimit,
+  recordLoginFailure,
+} from "./rateLimits";
+import {
+  ROLES,
+  Role,
+  accountStatus,
+  createAccount,
+  deleteUserKeys,
+  getAccount,
+  isValidUsername,
+  listUsernames,
+  setRole,
+  setSuspended,
+  userExists,
+} from "./users";
 
 declare global {
   namespace Express {
     interface Request {
       user?: string | jwt.JwtPayload;
+      // Files the upload filter turned away before they were stored.
+      rejectedUploads?: UploadResult[];
     }
   }
 }
 
 const app = express();
+// Behind a load balancer or reverse proxy, TRUST_PROXY (a hop count, or
+// addresses Express accepts) makes req.ip the client's address, which the
+// rate limits key on.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
 
 const PORT: number = 3001;
 
-const storage = multer.diskStorage({
-  destination: (req: Request, file: Express.Multer.File, cb) => {
-    const uploadsDir = "uploads/";
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir);
-    }
-    cb(null, uploadsDir);
-  },
-  filename: (req: Request, file: Express.Multer.File, cb) => {
-    const fileExtension = path.extname(file.originalname);
-    const uniqueFilename = `${crypto
-      .randomBytes(16)
-      .toString("hex")}${fileExtension}`;
-    cb(null, uniqueFilename);
+const upload = multer({
+  storage: multerStorage(storage, (req: Request, file: Express.Multer.File) =>
+    storageFilename(file.originalname)
+  ),
+  limits: { fileSize: UPLOAD_MAX_TOTAL_BYTES, files: UPLOAD_MAX_FILES },
+  // Only the name can be checked here; the contents are checked once stored.
+  fileFilter: (req, file, cb) => {
+    if (hasUploadableExtension(file.originalname)) return cb(null, true);
+    req.rejectedUploads = [
+      ...(req.rejectedUploads || []),
+      {
+        filename: file.originalname,
+        status: "failed",
+        error: "Not an image file.",
+        code: "unsupported_format",
+      },
+    ];
+    cb(null, false);
   },
 });
-const upload = multer({ storage: storage });
 
-const redisClient = redis.createClient({
-  url: `redis://${process.env.NODE_ENV === "production" ? "redis" : "127.0.0.1"
-    }:6379/0`,
+// Watermarks are small and normalized before storing, so they are kept in memory.
+const watermarkUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
 });
 
-redisClient.on("error", (err: Error) => console.log("Redis Client Error", err));
+// "image" is the single-file field older clients send; "images" takes any
+// mix of images and ZIP archives.
+const receiveUploads = (req: Request, res: Response, next: NextFunction) => {
+  const contentLength = parseInt(req.headers["content-length"] || "0");
+  if (contentLength > UPLOAD_MAX_TOTAL_BYTES) {
+    return res.status(413).json({
+      message: `Uploads are limited to ${UPLOAD_MAX_TOTAL_BYTES} bytes per request.`,
+    });
+  }
+  upload.fields([
+    { name: "image", maxCount: 1 },
+    { name: "images", maxCount: UPLOAD_MAX_FILES },
+  ])(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          message: `Uploads are limited to ${UPLOAD_MAX_TOTAL_BYTES} bytes per request.`,
+        });
+      }
+      if (err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE") {
+        return res.status(413).json({
+          message: `Uploads are limited to ${UPLOAD_MAX_FILES} files per request.`,
+        });
+      }
+      return res.status(400).json({ message: err.message });
+    }
+    next(err);
+  });
+};
 
-async function connectToRedis(): Promise<void> {
-  await redisClient.connect();
-  console.log("Connected to Redis!");
-}
-connectToRedis();
+connectToRedis()
+  .then(backfillFileOwners)
+  .then(backfillImageIndexes)
+  .then(backfillStorageUsage)
+  .then(rebuildTagCounts)
+  .catch((err) => console.error("Redis startup failed:", err));
 
 app.use(cors());
 app.use(bodyParser.json());
 
-const SECRET_KEY: string = "your_jwt_secret";
-
 const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
   if (token == null) return res.sendStatus(401);
 
+  // 401 rather than 403 so clients know to refresh an expired token.
   jwt.verify(token, SECRET_KEY, (err, user) => {
-    if (err) return res.sendStatus(403);
-    req.user = user;
-    next();
+    if (err) return res.sendStatus(401);
+    const { username } = user as { username: string };
+    accountStatus(username)
+      .then((status) => {
+        // A deleted account's refresh fails too, which signs the client out.
+        if (status === "missing") return res.sendStatus(401);
+        if (status === "suspended") {
+          return res.status(403).json({ message: "This account is suspended." });
+        }
+        req.user = user;
+        next();
+      })
+      .catch((statusErr) => {
+        console.error("Error checking account status:", statusErr);
+        res.status(500).json({ message: "Server error while checking the account." });
+      });
   });
 };
 
-app.post("/register", async (req: Request, res: Response) => {
-  const { username, password } = req.body;
-  if (!username || !password) {
+// For routes after authenticateToken. The role is read from the account
+// rather than the token, so a demoted admin loses access at once.
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const { username } = req.user as { username: string };
+  getAccount(username)
+    .then((account) => {
+      if (account.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required." });
+      }
+      next();
+    })
+    .catch((err) => {
+      console.error("Error checking the account's role:", err);
+      res.status(500).json({ message: "Server error while checking the account." });
+    });
+};
+
+// EventSource cannot send an Authorization header, so streaming routes
+// accept the token as a query parameter instead.
+const tokenFromQuery = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.headers["authorization"] && typeof req.query.token === "string") {
+    req.headers["authorization"] = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+app.post("/register", rateLimit(RATE_LIMIT_POLICIES.auth), async (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+  if (
+    !username ||
+    !password ||
+    typeof username !== "string" ||
+    typeof password !== "string"
+  ) {
     return res
       .status(400)
       .json({ message: "Username and password are required." });
   }
+  if (!isValidUsername(username)) {
+    return res
+      .status(400)
+      .json({ message: "Usernames can't contain :, *, ?, [, ] or \\." });
+  }
 
-  const userExists = await redisClient.hExists("users", username);
-  if (userExists) {
+  const created = await redisClient.hSetNX(
+    "users",
+    username,
+    await hashPassword(password)
+  );
+  if (!created) {
     return res.status(409).json({ message: "Username already taken." });
   }
+  await createAccount(username);
 
-  await redisClient.hSet("users", username, password);
   res.status(201).json({ message: "Account created successfully!" });
 });
 
-app.post("/login", async (req: Request, res: Response) => {
-  const { username, password } = req.body;
-  const storedPassword = await redisClient.hGet("users", username);
+// 429 with Retry-After while the username is locked out.
+function sendLockedOut(res: Response, seconds: number) {
+  res.set("Retry-After", String(seconds));
+  res.status(429).json({
+    message: `Too many failed logins for this account. Try again in ${Math.ceil(seconds / 60)} minute(s).`,
+  });
+}
+
+app.post("/login", rateLimit(RATE_LIMIT_POLICIES.auth), async (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== "string" || typeof password !== "string") {
+    return res.status(401).json({ message: "Invalid credentials" });
+  }
+
+  // A locked username is refused even with the right password, so
+  // guessing can't go on during the lockout.
+  const lockedFor = await loginLockoutSeconds(username);
+  if (lockedFor > 0) return sendLockedOut(res, lockedFor);
 
-  if (storedPassword && storedPassword === password) {
-    if (typeof username === "string") {
-      const token = jwt.sign({ username }, SECRET_KEY, { expiresIn: "1h" });
-      return res.json({ token, username });
+  const storedPassword = await redisClient.hGet("users", username);
+  if (storedPassword && (await verifyPassword(password, storedPassword))) {
+    if (!isPasswordHashed(storedPassword)) {
+      // Upgrade accounts created before passwords were hashed.
+      await redisClient.hSet("users", username, await hashPassword(password));
+    }
+    await clearLoginFailures(username);
+    // Checked after the password so suspension doesn't reveal the account.
+    const account = await getAccount(username);
+    if (account.suspended) {
+      return res.status(403).json({ message: "This account is suspended." });
     }
+    const token = signAccessToken(username, account.role);
+    const refreshToken = await issueRefreshToken(username);
+    return res.json({ token, refreshToken, username, role: account.role });
   }
+  // Unknown usernames are counted too, so responses don't reveal which exist.
+  const lockout = await recordLoginFailure(username);
+  if (lockout > 0) return sendLockedOut(res, lockout);
   res.status(401).json({ message: "Invalid credentials" });
 });
 
+app.post("/refresh", async (req: Request, res: Response) => {
+  const { refreshToken } = req.body || {};
+  if (typeof refreshToken !== "string") {
+    return res.status(400).json({ message: "A refresh token is required." });
+  }
+
+  const username = await redeemRefreshToken(refreshToken);
+  if (!username) {
+    return res
+      .status(401)
+      .json({ message: "Refresh token is invalid or expired." });
+  }
+
+  const status = await accountStatus(username);
+  if (status === "missing") {
+    return res.status(401).json({ message: "Refresh token is invalid or expired." });
+  }
+  if (status === "suspended") {
+    return res.status(403).json({ message: "This account is suspended." });
+  }
+  const { role } = await getAccount(username);
+  res.json({
+    token: signAccessToken(username, role),
+    refreshToken: await issueRefreshToken(username),
+    username,
+    role,
+  });
+});
+
+app.post("/logout", async (req: Request, res: Response) => {
+  const { refreshToken } = req.body || {};
+  if (typeof refreshToken === "string") {
+    await revokeRefreshToken(refreshToken);
+  }
+  res.json({ message: "Logged out." });
+});
+
+// The user's plan, its limits and how much of them is used.
+app.get("/usage", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    res.json(await getUsage(userPayload.username));
+  } catch (err) {
+    console.error("Error fetching usage:", err);
+    res.status(500).json({ message: "Server error while fetching usage." });
+  }
+});
+
+app.get("/operations", authenticateToken, (req: Request, res: Response) => {
+  res.json(operationSchemas);
+});
+
 app.post(
   "/images/upload",
   authenticateToken,
-  upload.single("image"),
+  rateLimit(RATE_LIMIT_POLICIES.upload),
+  receiveUploads,
   async (req: Request, res: Response) => {
-    if (!req.file) {
+    const fields = (req.files || {}) as Record<string, Express.Multer.File[]>;
+    const files = [...(fields.image || []), ...(fields.images || [])];
+    const results: UploadResult[] = [...(req.rejectedUploads || [])];
+    if (files.length === 0 && results.length === 0) {
       return res.status(400).json({ message: "No image file provided." });
     }
 
     const userPayload = req.user as { username: string };
     const user = userPayload.username;
-    const originalFilename = req.file.originalname;
-    const uniqueFilename = req.file.filename;
-
-    try {
-            const form = new FormData();
-      form.append('image', fs.createReadStream(req.file.path));
-
-      const imaggaResponse = await axios.post(
-        'https://api.imagga.com/v2/tags',
-        form,
-        {
-          headers: {
-            ...form.getHeaders(),
-            // Create Basic Auth header from your API keys
-            'Authorization': 'Basic ' + Buffer.from(`${process.env.IMAGGA_API_KEY}:${process.env.IMAGGA_API_SECRET}`).toString('base64'),
-          },
-        }
-      );
 
-      // Extract the top 5 tags with confidence over 20
-      const tags = imaggaResponse.data.result.tags
-        .filter((tag: { confidence: number }) => tag.confidence > 20)
-        .slice(0, 5)
-        .map((tag: { tag: { en: string } }) => tag.tag.en);
-      const imageId = `image:${uniqueFilename}`;
-      await redisClient.hSet(imageId, {
-        user,
-        original_filename: originalFilename,
-        unique_filename: uniqueFilename,
-        status: "uploaded",
-        processed_versions: JSON.stringify([]),
-        tags: JSON.stringify(tags),
+    // Each file is checked against the limit separately by multer.
+    const totalBytes = files.reduce((total, file) => total + file.size, 0);
+    if (totalBytes > UPLOAD_MAX_TOTAL_BYTES) {
+      await Promise.all(files.map((file) => storage.delete(file.filename)));
+      return res.status(413).json({
+        message: `Uploads are limited to ${UPLOAD_MAX_TOTAL_BYTES} bytes per request.`,
       });
+    }
 
-      res.status(201).json({
-        message:
-          "Image uploaded successfully. Processing can now be triggered.",
-        imageId,
-      });
-    } catch (err) {
-      console.error("Error uploading image metadata to Redis:", err);
-      res.status(500).json({ message: "Server error occurred during upload." });
+    // Archives are charged for what they unpack to rather than their own size.
+    const plainFiles = files.filter((file) => !isZipUpload(file));
+    const quota = await remainingUploads(user);
+    const budget: UploadBudget = {
+      files: UPLOAD_MAX_FILES - plainFiles.length,
+      bytes: UPLOAD_MAX_TOTAL_BYTES - plainFiles.reduce((total, file) => total + file.size, 0),
+      quotaImages: quota.images,
+      quotaBytes: quota.bytes,
+    };
+
+    for (const file of files) {
+      let charged = false;
+      try {
+        if (!isZipUpload(file)) {
+          const overQuota = chargeQuota(file.originalname, file.size, budget);
+          if (overQuota) {
+            await storage.delete(file.filename);
+            results.push(overQuota);
+            continue;
+          }
+          charged = true;
+        }
+        if (isZipUpload(file)) {
+          try {
+            results.push(...(await storeZipEntries(user, file.filename, budget)));
+          } finally {
+            await storage.delete(file.filename);
+          }
+          continue;
+        }
+        const result = await acceptUploadedFile(user, file);
+        if (result.status === "failed") releaseQuota(file.size, budget);
+        results.push(result);
+      } catch (err) {
+        console.error(`Error storing upload ${file.originalname}:`, err);
+        // Files that fail are removed from storage, so they don't use the plan.
+        if (charged) releaseQuota(file.size, budget);
+        results.push({
+          filename: file.originalname,
+          status: "failed",
+          error: isZipUpload(file)
+            ? "Could not read the archive."
+            : "Server error occurred during upload.",
+        });
+      }
     }
+
+    const uploaded = results.filter((result) => result.status === "uploaded");
+    // 207 when some files went in and some didn't; the client reads `results`.
+    // When none did and all for the same reason, that reason's status is used.
+    let status = uploaded.length < results.length ? 207 : 201;
+    if (uploaded.length === 0) {
+      const codes = new Set(results.map((result) => result.code));
+      const [code] = codes;
+      status = codes.size === 1 && code ? UPLOAD_ERROR_STATUS[code] : 400;
+    }
+    res.status(status).json({
+      message:
+        uploaded.length === 0
+          ? "No images were uploaded."
+          : `${uploaded.length} of ${results.length} image(s) uploaded. Processing can now be triggered.`,
+      imageId: uploaded.length === 1 ? uploaded[0].imageId : undefined,
+      results,
+    });
   }
 );
 
+// 413 or 429 with the plan's limit in the message; 429s say when to retry.
+function sendQuotaExceeded(res: Response, err: QuotaExceededError) {
+  if (err.retryAfterSeconds !== undefined) {
+    res.set("Retry-After", String(err.retryAfterSeconds));
+  }
+  res.status(err.status).json({ message: err.message });
+}
+
+// Reads the operations to run from a request body: either an operations
+// array or the id of a saved preset. Sends the error response and returns
+// null if neither is usable.
+async function operationsFromBody(
+  body: Record<string, unknown>,
+  user: string,
+  res: Response
+): Promise<ImageOperation[] | null> {
+  if (body.presetId !== undefined) {
+    const preset = await getUsablePreset(String(body.presetId), user);
+    if (!preset) {
+      res.status(404).json({ message: "Preset not found." });
+      return null;
+    }
+    return preset.operations;
+  }
+
+  const { operations, errors } = validateOperations(body.operations);
+  if (Object.keys(errors).length > 0) {
+    res.status(400).json({ message: "Invalid operations.", errors });
+    return null;
+  }
+  if (!(await checkWatermarks(operations, user, res))) return null;
+  return operations;
+}
+
+// Watermark steps may only use the user's own watermark images. A shared
+// preset keeps using its owner's, so presets aren't checked when applied.
+async function checkWatermarks(
+  operations: ImageOperation[],
+  user: string,
+  res: Response
+): Promise<boolean> {
+  const foreign = await foreignWatermarks(operations, user);
+  if (foreign.length > 0) {
+    res.status(400).json({ message: `Watermark not found: ${foreign.join(", ")}` });
+    return false;
+  }
+  return true;
+}
+
+// The file an edit starts from: `body.source` if given, which must be the
+// image's original or one of its versions, otherwise the current version.
+function sourceFromBody(
+  body: Record<string, unknown>,
+  imageMetadata: Record<string, string>,
+  res: Response
+): string | null {
+  const source =
+    (typeof body.source === "string" && body.source) ||
+    imageMetadata.current_version ||
+    imageMetadata.unique_filename;
+  const knownFiles = [
+    imageMetadata.unique_filename,
+    ...versionFilenames(imageMetadata),
+  ];
+  if (!knownFiles.includes(source)) {
+    res.status(400).json({
+      message: "Source must be the original image or one of its versions.",
+    });
+    return null;
+  }
+  return source;
+}
+
 app.post(
   "/images/:id/process",
   authenticateToken,
+  rateLimit(RATE_LIMIT_POLICIES.process),
   async (req: Request, res: Response) => {
     const imageId = `image:${req.params.id}`;
     const userPayload = req.user as { username: string };
+    const body = req.body || {};
 
-    const {
-      operations,
-      source,
-    }: { operations: ImageOperation[]; source?: string } = req.body;
-
-    if (!operations || !Array.isArray(operations) || operations.length === 0) {
-      return res
-        .status(400)
-        .json({ message: "Request body must contain an array of operations." });
-    }
+    const operations = await operationsFromBody(body, userPayload.username, res);
+    if (!operations) return;
 
     const imageMetadata = await redisClient.hGetAll(imageId);
 
@@ -214,428 +618,1342 @@ app.post(
         .json({ message: "Image not found or access denied." });
     }
 
-    res.json({
-      message: `Processing started with ${operations.length} operations.`,
-    });
-
-    (async () => {
-      const sourceFilename = req.body.source || imageMetadata.unique_filename;
-      const sourceImagePath = path.join("uploads", sourceFilename);
-      const processedFilename = `processed-${crypto
-        .randomBytes(8)
-        .toString("hex")}-${imageMetadata.unique_filename}`;
-      const processedPath = path.join("uploads", processedFilename);
-
-      try {
-        await redisClient.hSet(imageId, "status", "processing");
-        let image = sharp(sourceImagePath);
-
-        for (const op of operations) {
-          switch (op.type) {
-
-            case "sharpen":
-              image = image.sharpen({ sigma: op.sigma || 2 });
-              break;
-
-            case "composite":
-              image = image.composite([
-                { input: "watermark.png", gravity: "southeast" },
-              ]);
-              break;
-
-            case "tint":
-              image = image.tint({ r: 255, g: 240, b: 150 }); //  Sepia-like tint
-              break;
-            case "negate":
-              image = image.negate();
-              break;
-            case "convolve":
-              image = image.convolve({
-                width: 3,
-                height: 3,
-                kernel: [-2, -1, 0, -1, 1, 1, 0, 1, 2],
-              });
-              break;
-            case "median":
-              image = image.median(10);
-              break;
-            case "recomb":
-              image = image.recomb([
-                [0.2126, 0.7152, 0.0722],
-                [0.2126, 0.7152, 0.0722],
-                [0.2126, 0.7152, 0.0722],
-              ]);
-              break;
-
-            case "fractal_noise":
-              // Creates a fractal noise overlay - very computationally expensive
-              const { width: imgWidth, height: imgHeight } = await image.metadata();
-              const noiseWidth = imgWidth || 800;
-              const noiseHeight = imgHeight || 800;
-              const noiseBuffer = Buffer.alloc(noiseWidth * noiseHeight * 3);
-              for (let y = 0; y < noiseHeight; y++) {
-                for (let x = 0; x < noiseWidth; x++) {
-                  const idx = (y * noiseWidth + x) * 3;
-                  const noise1 = Math.sin(x * 0.02) * Math.sin(y * 0.02);
-                  const noise2 = Math.sin(x * 0.04) * Math.sin(y * 0.03);
-                  const noise3 = Math.sin(x * 0.01) * Math.sin(y * 0.015);
-                  const finalNoise = (noise1 + noise2 * 0.5 + noise3 * 0.25) * 127 + 128;
-
-                  noiseBuffer[idx] = Math.max(0, Math.min(255, finalNoise));
-                  noiseBuffer[idx + 1] = Math.max(0, Math.min(255, finalNoise * 0.8));
-                  noiseBuffer[idx + 2] = Math.max(0, Math.min(255, finalNoise * 0.6));
-                }
-              }
-
-              const noiseImage = await sharp(noiseBuffer, {
-                raw: { width: noiseWidth, height: noiseHeight, channels: 3 }
-              }).png().toBuffer();
-
-              image = image.composite([{ input: noiseImage, blend: 'overlay' }]);
-              break;
-
-            case "chromatic_aberration":
-              // Simulates lens chromatic aberration - very cool effect
-              const metadata = await image.metadata();
-              const originalBuffer = await image.toBuffer();
-
-              // Create red, green, blue channel shifts
-              const redShift = sharp(originalBuffer)
-                .extractChannel('red')
-                .resize(metadata.width! + 4, metadata.height! + 4)
-                .extract({ left: 2, top: 2, width: metadata.width!, height: metadata.height! });
-
-              const greenChannel = sharp(originalBuffer).extractChannel('green');
-
-              const blueShift = sharp(originalBuffer)
-                .extractChannel('blue')
-                .resize(metadata.width! - 4, metadata.height! - 4)
-                .resize(metadata.width!, metadata.height!);
-
-              // Recombine with shifts
-              image = sharp({
-                create: {
-                  width: metadata.width!,
-                  height: metadata.height!,
-                  channels: 3,
-                  background: { r: 0, g: 0, b: 0 }
-                }
-              }).composite([
-                { input: await redShift.toBuffer(), blend: 'lighten' },
-                { input: await greenChannel.toBuffer(), blend: 'lighten' },
-                { input: await blueShift.toBuffer(), blend: 'lighten' }
-              ]);
-              break;
-
-            case "oil_painting":
-              // Oil painting effect using multiple convolutions 
-              const oilKernel1 = [
-                1, 1, 1, 1, 1,
-                1, 2, 2, 2, 1,
-                1, 2, 4, 2, 1,
-                1, 2, 2, 2, 1,
-                1, 1, 1, 1, 1
-              ];
-
-              image = image
-                .convolve({ width: 5, height: 5, kernel: oilKernel1, scale: 36 })
-                .median(3)
-                .sharpen({ sigma: 2, m1: 2, m2: 3 })
-                .modulate({ saturation: 1.3, lightness: 1.1 });
-              break;
-
-            case "holographic":
-              // Creates a holographic rainbow effect
-              const holoMetadata = await image.metadata();
-              const holoWidth = holoMetadata.width || 800;
-              const holoHeight = holoMetadata.height || 800;
-              const holoBuffer = Buffer.alloc(holoWidth * holoHeight * 3);
-
-              for (let y = 0; y < holoHeight; y++) {
-                for (let x = 0; x < holoWidth; x++) {
-                  const idx = (y * holoWidth + x) * 3;
-                  const wave = Math.sin((x + y) * 0.1) * 0.5 + 0.5;
-                  holoBuffer[idx] = Math.max(0, Math.min(255, Math.sin(wave * Math.PI * 2) * 127 + 128));     // R
-                  holoBuffer[idx + 1] = Math.max(0, Math.min(255, Math.sin(wave * Math.PI * 2 + 2.09) * 127 + 128)); // G
-                  holoBuffer[idx + 2] = Math.max(0, Math.min(255, Math.sin(wave * Math.PI * 2 + 4.19) * 127 + 128)); // B
-                }
-              }
-
-              // Convert raw buffer to PNG buffer before compositing
-              const holoOverlay = await sharp(holoBuffer, {
-                raw: { width: holoWidth, height: holoHeight, channels: 3 }
-              }).png().toBuffer();
-
-              image = image.composite([{ input: holoOverlay, blend: 'screen' }]);
-              break;
-
-            case "edge_enhance_extreme":
-              // Extreme edge enhancement with multiple passes
-              const edgeKernel1 = [-1, -1, -1, -1, -1, -1, -1,
-              -1, -2, -2, -2, -2, -2, -1,
-              -1, -2, -3, -3, -3, -2, -1,
-              -1, -2, -3, 24, -3, -2, -1,
-              -1, -2, -3, -3, -3, -2, -1,
-              -1, -2, -2, -2, -2, -2, -1,
-              -1, -1, -1, -1, -1, -1, -1];
-
-              const edgeKernel2 = [-1, -1, -1,
-              -1, 8, -1,
-              -1, -1, -1];
-
-              image = image
-                .convolve({ width: 7, height: 7, kernel: edgeKernel1 })
-                .normalize()
-                .convolve({ width: 3, height: 3, kernel: edgeKernel2 })
-                .linear(1.8, 10)
-                .gamma(1.2)
-                .sharpen({ sigma: 3, m1: 2, m2: 3 });
-              break;
-
-            case "vortex":
-              // Creates a swirl/vortex effect by manipulating pixel coordinates
-              const vortexMeta = await image.metadata();
-              const vortexWidth = vortexMeta.width || 800;
-              const vortexHeight = vortexMeta.height || 800;
-              const centerX = vortexWidth / 2;
-              const centerY = vortexHeight / 2;
-              const maxRadius = Math.min(centerX, centerY);
-
-              // This is computationally expensive - we'll simulate with multiple rotations
-              const segments = 8;
-              let composites = [];
-
-              for (let i = 0; i < segments; i++) {
-                const angle = (360 / segments) * i;
-                const radius = (maxRadius / segments) * (i + 1);
-
-                const segment = sharp(await image.clone().toBuffer())
-                  .resize(Math.floor(vortexWidth * (1 - i * 0.1)),
-                    Math.floor(vortexHeight * (1 - i * 0.1)))
-                  .rotate(angle * (i + 1))
-                  .resize(vortexWidth, vortexHeight);
-
-                composites.push({
-                  input: await segment.toBuffer(),
-                  blend: (i === 0 ? 'over' : 'multiply') as sharp.Blend,
-                  opacity: 1 / (i + 1)
-                });
-              }
-
-              image = sharp({
-                create: { width: vortexWidth, height: vortexHeight, channels: 3, background: 'black' }
-              }).composite(composites);
-              break;
-
-
-
-
-            case "plasma":
-              // Generates plasma-like effect
-              const plasmaMeta = await image.metadata();
-              const plasmaWidth = plasmaMeta.width || 800;
-              const plasmaHeight = plasmaMeta.height || 800;
-              const plasmaBuffer = Buffer.alloc(plasmaWidth * plasmaHeight * 3);
-
-              for (let y = 0; y < plasmaHeight; y++) {
-                for (let x = 0; x < plasmaWidth; x++) {
-                  const idx = (y * plasmaWidth + x) * 3;
-
-                  const plasma = Math.sin(x * 0.04) +
-                    Math.sin(y * 0.03) +
-                    Math.sin((x + y) * 0.02) +
-                    Math.sin(Math.sqrt(x * x + y * y) * 0.02);
-
-                  plasmaBuffer[idx] = Math.max(0, Math.min(255, (Math.sin(plasma) + 1) * 127.5));     // R
-                  plasmaBuffer[idx + 1] = Math.max(0, Math.min(255, (Math.sin(plasma + 2) + 1) * 127.5)); // G
-                  plasmaBuffer[idx + 2] = Math.max(0, Math.min(255, (Math.sin(plasma + 4) + 1) * 127.5)); // B
-                }
-              }
-
-              const plasmaImage = await sharp(plasmaBuffer, {
-                raw: { width: plasmaWidth, height: plasmaHeight, channels: 3 }
-              }).png().toBuffer();
-
-              image = image.composite([{ input: plasmaImage, blend: 'multiply' }]);
-              break;
-            case "aurora":
-              const auroraMeta = await image.metadata();
-              const auroraWidth = auroraMeta.width || 800;
-              const auroraHeight = auroraMeta.height || 600;
-              const auroraBuffer = Buffer.alloc(auroraWidth * auroraHeight * 4); // RGBA for transparency
-
-              for (let y = 0; y < auroraHeight; y++) {
-                for (let x = 0; x < auroraWidth; x++) {
-                  const idx = (y * auroraWidth + x) * 4;
-                  let alpha = 0;
-
-                  const noise1 = Math.sin(y * 0.01 + x * 0.005 + Date.now() * 0.0001) * 0.5 + 0.5;
-                  const noise2 = Math.sin(y * 0.015 - x * 0.003 + Date.now() * 0.00015) * 0.5 + 0.5;
-                  const noise3 = Math.sin(y * 0.008 + x * 0.007 + Date.now() * 0.0002) * 0.5 + 0.5;
-
-                  const band1 = Math.pow(Math.abs(Math.sin(y * 0.02 + Date.now() * 0.00005) * 5), 5) * 300;
-                  const band2 = Math.pow(Math.abs(Math.sin((y + 50) * 0.025 + Date.now() * 0.00007) * 5), 5) * 300;
-                  const band3 = Math.pow(Math.abs(Math.sin((y + 100) * 0.018 + Date.now() * 0.00009) * 5), 5) * 300;
-
-                  const intensity = (band1 + band2 * 0.8 + band3 * 0.6) / (auroraHeight * 3); // Normalize
-
-                  if (intensity > 0.008) {
-                    alpha = Math.min(0.6, intensity * 5); // Adjusted alpha for more transparency
-
-                    const r = Math.max(0, Math.min(255, (0.8 * noise1 + 0.2) * 255)); // Orange/Pink
-                    const g = Math.max(0, Math.min(255, (0.3 * noise2) * 255)); // Subtle Green/Yellow
-                    const b = Math.max(0, Math.min(255, (0.5 * noise3 + 0.5) * 255)); // Purple/Blue
-
-                    auroraBuffer.writeUInt8(r, idx);
-                    auroraBuffer.writeUInt8(g, idx + 1);
-                    auroraBuffer.writeUInt8(b, idx + 2);
-                    auroraBuffer.writeUInt8(Math.floor(alpha * 255), idx + 3);
-                  } else {
-                    auroraBuffer.writeUInt32BE(0, idx); // Fully transparent if intensity is low
-                  }
-                }
-              }
-
-              const auroraImage = await sharp(auroraBuffer, {
-                raw: { width: auroraWidth, height: auroraHeight, channels: 4 },
-              }).png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer();
-
-              image = image.composite([{ input: auroraImage, blend: 'soft-light' }]);
-              break;
-
+    const source = sourceFromBody(body, imageMetadata, res);
+    if (!source) return;
 
-          }
+    try {
+      // `metadata` overrides the user's output metadata defaults for this job.
+      let outputMetadata;
+      if (body.metadata !== undefined) {
+        const { options, errors } = parseMetadataOptions(
+          body.metadata,
+          await getMetadataDefaults(userPayload.username),
+          "metadata"
+        );
+        if (Object.keys(errors).length > 0) {
+          return res.status(400).json({ message: "Invalid metadata options.", errors });
         }
+        outputMetadata = options;
+      }
+      await checkProcessingQuota(userPayload.username);
+      const jobId = await enqueueJob({
+        imageId,
+        user: userPayload.username,
+        source,
+        operations,
+        outputMetadata,
+      });
+      await redisClient.hSet(imageId, {
+        status: "processing",
+        latest_job: jobId,
+      });
 
-        await image.toFile(processedPath);
+      res.status(202).json({
+        message: `Processing queued with ${operations.length} operations.`,
+        jobId,
+      });
+    } catch (err) {
+      if (err instanceof QuotaExceededError) return sendQuotaExceeded(res, err);
+      console.error(`Error queueing job for image ${imageId}:`, err);
+      res.status(500).json({ message: "Server error while queueing the job." });
+    }
+  }
+);
 
-        // --- FIX 1: CORRECTLY UPDATE THE 'processed_versions' ARRAY ---
-        const existingVersions = JSON.parse(
-          imageMetadata.processed_versions || "[]"
-        );
-        existingVersions.push(processedFilename);
+// Renders the operations (or preset) on a downscaled copy of the source
+// without creating a version. `size` bounds the longer side.
+app.post(
+  "/images/:id/preview",
+  authenticateToken,
+  rateLimit(RATE_LIMIT_POLICIES.process),
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+    const body = req.body || {};
 
-        await redisClient.hSet(imageId, {
-          status: "completed",
-          processed_versions: JSON.stringify(existingVersions),
-        });
+    const size = body.size === undefined ? PREVIEW_DEFAULT_SIZE : body.size;
+    if (!Number.isInteger(size) || size < 32 || size > PREVIEW_MAX_SIZE) {
+      return res.status(400).json({
+        message: "Invalid preview.",
+        errors: { size: `must be an integer between 32 and ${PREVIEW_MAX_SIZE}` },
+      });
+    }
 
-        console.log(`Image ${imageId} processed successfully.`);
+    try {
+      const operations = await operationsFromBody(body, userPayload.username, res);
+      if (!operations) return;
+      const imageMetadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!imageMetadata) return;
+      const source = sourceFromBody(body, imageMetadata, res);
+      if (!source) return;
+      await checkProcessingQuota(userPayload.username);
+
+      // Renders count against the day's processing time like jobs do,
+      // failed ones included; previews served from the cache are free.
+      const started = Date.now();
+      let cached = false;
+      try {
+        const preview = await renderPreview(source, operations, size);
+        cached = preview.cached;
+        res.set("X-Preview-Cache", cached ? "hit" : "miss");
+        res.type("webp").send(preview.data);
       } catch (err) {
-        console.error(`Error processing image ${imageId}:`, err);
-        await redisClient.hSet(imageId, "status", "failed");
+        // Usually a step that can't run on this image, e.g. a crop outside it.
+        console.error(`Preview of ${imageId} failed:`, err);
+        res.status(422).json({ message: `Preview failed: ${(err as Error).message}` });
+      } finally {
+        if (!cached) {
+          await addProcessingTime(userPayload.username, Date.now() - started).catch((err) =>
+            console.error(`Failed to record processing time of a preview of ${imageId}:`, err)
+          );
+        }
       }
-    })();
+    } catch (err) {
+      if (err instanceof QuotaExceededError) return sendQuotaExceeded(res, err);
+      console.error(`Error rendering preview of ${imageId}:`, err);
+      res.status(500).json({ message: "Server error while rendering the preview." });
+    }
   }
 );
 
-app.get("/images", authenticateToken, async (req: Request, res: Response) => {
+// Renders the preset's thumbnail from `source` if one was given. A source
+// the user doesn't own is rejected; a failed render only skips the thumbnail.
+async function withThumbnail(
+  preset: Preset,
+  source: unknown,
+  user: string
+): Promise<{ preset: Preset; thumbnailError?: string }> {
+  if (typeof source !== "string" || !source) return { preset };
+  if ((await fileOwner(path.basename(source))) !== user) {
+    return { preset, thumbnailError: "Thumbnail source not found." };
+  }
+  try {
+    return { preset: await renderPresetThumbnail(preset, path.basename(source)) };
+  } catch (err) {
+    console.error(`Failed to render thumbnail for preset ${preset.id}:`, err);
+    return { preset, thumbnailError: (err as Error).message };
+  }
+}
+
+app.get("/presets", authenticateToken, async (req: Request, res: Response) => {
   const userPayload = req.user as { username: string };
-  const user = userPayload.username;
 
-  const page: number = parseInt(req.query.page as string) || 1;
-  const limit: number = parseInt(req.query.limit as string) || 10;
-  const sortBy: string = (req.query.sortBy as string) || "original_filename";
-  const order: number = req.query.order === "desc" ? -1 : 1;
-  const startIndex = (page - 1) * limit;
+  try {
+    res.json(await listPresets(userPayload.username));
+  } catch (err) {
+    console.error("Error fetching presets:", err);
+    res.status(500).json({ message: "Server error while fetching presets." });
+  }
+});
+
+app.post("/presets", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  const { fields, errors } = validatePresetFields(req.body || {});
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({ message: "Invalid preset.", errors });
+  }
 
   try {
-    const imageKeys = await redisClient.keys("image:*");
-    let userImages: any[] = [];
-
-    for (const key of imageKeys) {
-      const metadata = await redisClient.hGetAll(key);
-      if (metadata.user === user) {
-        metadata.processed_versions = JSON.parse(
-          metadata.processed_versions || "[]"
-        );
-        userImages.push(metadata);
-      }
+    if (!(await checkWatermarks(fields.operations, userPayload.username, res))) return;
+    const preset = await createPreset(userPayload.username, fields);
+    res
+      .status(201)
+      .json(await withThumbnail(preset, req.body.thumbnailSource, userPayload.username));
+  } catch (err) {
+    console.error("Error creating preset:", err);
+    res.status(500).json({ message: "Server error while saving the preset." });
+  }
+});
+
+app.get("/presets/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const preset = await getUsablePreset(req.params.id, userPayload.username);
+    if (!preset) {
+      return res.status(404).json({ message: "Preset not found." });
     }
-    userImages.sort((a, b) => {
-      if (a[sortBy] < b[sortBy]) return -1 * order;
-      if (a[sortBy] > b[sortBy]) return 1 * order;
-      return 0;
-    });
+    res.json(preset);
+  } catch (err) {
+    console.error("Error fetching preset:", err);
+    res.status(500).json({ message: "Server error while fetching the preset." });
+  }
+});
 
-    const paginatedImages = userImages.slice(startIndex, startIndex + limit);
+// Fields left out of the body keep their current values.
+app.put("/presets/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
 
-    res.json({
-      totalImages: userImages.length,
-      totalPages: Math.ceil(userImages.length / limit),
-      currentPage: page,
-      images: paginatedImages,
+  try {
+    const preset = await getPreset(req.params.id);
+    if (!preset || preset.owner !== userPayload.username) {
+      return res.status(404).json({ message: "Preset not found." });
+    }
+
+    const { fields, errors } = validatePresetFields({
+      name: preset.name,
+      description: preset.description,
+      operations: preset.operations,
+      shared: preset.shared,
+      ...req.body,
     });
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({ message: "Invalid preset.", errors });
+    }
+
+    if (!(await checkWatermarks(fields.operations, userPayload.username, res))) return;
+    const updated = await updatePreset(preset, fields);
+    res.json(await withThumbnail(updated, req.body?.thumbnailSource, userPayload.username));
   } catch (err) {
-    console.error("Error fetching images:", err);
-    res.status(500).json({ message: "Server error while fetching images." });
+    console.error("Error updating preset:", err);
+    res.status(500).json({ message: "Server error while updating the preset." });
+  }
+});
+
+app.delete("/presets/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const preset = await getPreset(req.params.id);
+    if (!preset || preset.owner !== userPayload.username) {
+      return res.status(404).json({ message: "Preset not found." });
+    }
+    await deletePreset(preset);
+    res.json({ message: "Preset deleted." });
+  } catch (err) {
+    console.error("Error deleting preset:", err);
+    res.status(500).json({ message: "Server error while deleting the preset." });
   }
 });
 
 app.get(
-  "/images/:filename/file",
+  "/presets/:id/thumbnail",
   authenticateToken,
   async (req: Request, res: Response) => {
-    const filename = req.params.filename;
-    const filePath = path.resolve("./uploads", filename);
+    const userPayload = req.user as { username: string };
 
-    if (path.dirname(filePath) !== path.resolve("./uploads")) {
-      return res.status(403).send("Forbidden");
+    try {
+      const preset = await getUsablePreset(req.params.id, userPayload.username);
+      if (!preset || !preset.thumbnail) {
+        return res.status(404).json({ message: "Thumbnail not found." });
+      }
+      res.type("image/webp");
+      (await storage.getStream(preset.thumbnail)).pipe(res);
+    } catch (err) {
+      if (err instanceof FileNotFoundError) {
+        return res.status(404).json({ message: "Thumbnail not found." });
+      }
+      console.error("Error serving preset thumbnail:", err);
+      res.status(500).json({ message: "Server error while serving the thumbnail." });
     }
+  }
+);
 
-    res.sendFile(filePath, (err) => {
-      if (err) {
-        res.status(404).send("File not found.");
-      }
+app.get("/watermarks", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    res.json({
+      watermarks: await listWatermarks(userPayload.username),
+      defaults: await getWatermarkDefaults(userPayload.username),
     });
+  } catch (err) {
+    console.error("Error fetching watermarks:", err);
+    res.status(500).json({ message: "Server error while fetching watermarks." });
   }
-);
+});
 
-app.delete(
-  "/images/:id",
+app.post(
+  "/watermarks",
   authenticateToken,
+  rateLimit(RATE_LIMIT_POLICIES.upload),
+  watermarkUpload.single("image"),
   async (req: Request, res: Response) => {
-    const imageId = `image:${req.params.id}`;
     const userPayload = req.user as { username: string };
+    if (!req.file) {
+      return res.status(400).json({ message: "No image file provided." });
+    }
+    const name =
+      (typeof req.body?.name === "string" && req.body.name.trim().slice(0, 100)) ||
+      req.file.originalname;
 
     try {
-      const imageMetadata = await redisClient.hGetAll(imageId);
-
-      if (!imageMetadata || imageMetadata.user !== userPayload.username) {
+      if ((await countWatermarks(userPayload.username)) >= MAX_WATERMARKS) {
         return res
-          .status(404)
-          .json({ message: "Image not found or access denied." });
+          .status(400)
+          .json({ message: `You can keep at most ${MAX_WATERMARKS} watermarks.` });
+      }
+      await validateImage(req.file.buffer);
+      const watermark = await createWatermark(userPayload.username, name, req.file.buffer);
+      res.status(201).json(watermark);
+    } catch (err) {
+      if (err instanceof ImageValidationError) {
+        return res.status(err.status).json({ message: err.message, code: err.code });
       }
+      console.error("Error saving watermark:", err);
+      res.status(500).json({ message: "Server error while saving the watermark." });
+    }
+  }
+);
 
-      // Delete all associated files from the 'uploads' directory
-      const filesToDelete = [
-        imageMetadata.unique_filename,
-        ...JSON.parse(imageMetadata.processed_versions || "[]"),
-      ];
+// The default watermark step and whether downloads get it unless asked not to.
+app.put("/watermarks/defaults", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+  const body = req.body || {};
+
+  const { operations, errors: operationErrors } = validateOperations([
+    { ...body.operation, type: "composite" },
+  ]);
+  // "operations[0].text" -> "operation.text"
+  const errors: Record<string, string> = {};
+  for (const [field, error] of Object.entries(operationErrors)) {
+    errors[field.replace(/^operations\[0\]/, "operation")] = error;
+  }
+  if (body.applyToDownloads !== undefined && typeof body.applyToDownloads !== "boolean") {
+    errors.applyToDownloads = "must be a boolean";
+  }
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({ message: "Invalid watermark settings.", errors });
+  }
 
-      filesToDelete.forEach((filename) => {
-        if (filename) {
-          // Ensure filename is not empty
-          const filePath = path.resolve("./uploads", filename);
-          fs.unlink(filePath, (err) => {
-            if (err) console.error(`Failed to delete file ${filename}:`, err);
-          });
-        }
-      });
+  try {
+    if (!(await checkWatermarks(operations, userPayload.username, res))) return;
+    const defaults = {
+      operation: operations[0] as WatermarkOperation,
+      applyToDownloads: body.applyToDownloads === true,
+    };
+    await setWatermarkDefaults(userPayload.username, defaults);
+    res.json(defaults);
+  } catch (err) {
+    console.error("Error saving watermark settings:", err);
+    res.status(500).json({ message: "Server error while saving watermark settings." });
+  }
+});
 
-      // Delete the image record from Redis
-      await redisClient.del(imageId);
+app.get(
+  "/watermarks/:id/file",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
 
-      res
-        .status(200)
-        .json({ message: "Image and all its versions deleted successfully." });
-    } catch (error) {
-      console.error("Error deleting image:", error);
-      res.status(500).json({ message: "Server error during deletion." });
+    try {
+      const watermark = await getWatermark(req.params.id);
+      if (!watermark || watermark.owner !== userPayload.username) {
+        return res.status(404).json({ message: "Watermark not found." });
+      }
+      res.type("png");
+      (await storage.getStream(watermark.filename)).pipe(res);
+    } catch (err) {
+      if (err instanceof FileNotFoundError) {
+        return res.status(404).json({ message: "Watermark file not found." });
+      }
+      console.error("Error reading watermark:", err);
+      res.status(500).json({ message: "Server error while reading the watermark." });
     }
   }
 );
 
+app.delete("/watermarks/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const watermark = await getWatermark(req.params.id);
+    if (!watermark || watermark.owner !== userPayload.username) {
+      return res.status(404).json({ message: "Watermark not found." });
+    }
+    await deleteWatermark(watermark);
+    res.json({ message: "Watermark deleted." });
+  } catch (err) {
+    console.error("Error deleting watermark:", err);
+    res.status(500).json({ message: "Server error while deleting the watermark." });
+  }
+});
+
+app.get("/jobs", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  try {
+    const jobs = await listUserJobs(userPayload.username, limit);
+    res.json({ jobs });
+  } catch (err) {
+    console.error("Error fetching jobs:", err);
+    res.status(500).json({ message: "Server error while fetching jobs." });
+  }
+});
+
+app.get(
+  "/jobs/events",
+  tokenFromQuery,
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const unsubscribe = await onJobEvent((job) => {
+      if (job.user === userPayload.username) {
+        res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+      }
+    });
+    // Comment lines keep proxies from closing an idle stream.
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  }
+);
+
+app.get("/jobs/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const job = await getJob(req.params.id);
+    if (!job || job.user !== userPayload.username) {
+      return res.status(404).json({ message: "Job not found or access denied." });
+    }
+    res.json(job);
+  } catch (err) {
+    console.error("Error fetching job:", err);
+    res.status(500).json({ message: "Server error while fetching the job." });
+  }
+});
+
+app.post(
+  "/jobs/:id/cancel",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
+
+    try {
+      const job = await getJob(req.params.id);
+      if (!job || job.user !== userPayload.username) {
+        return res.status(404).json({ message: "Job not found or access denied." });
+      }
+      const result = await cancelJob(job.id);
+      if (result === "finished") {
+        return res.status(409).json({ message: "The job has already finished." });
+      }
+      if (result === "cancelled") await restoreImageStatus(job.image_id);
+      res.json({ message: result === "cancelled" ? "Job cancelled." : "Cancellation requested." });
+    } catch (err) {
+      console.error("Error cancelling job:", err);
+      res.status(500).json({ message: "Server error while cancelling the job." });
+    }
+  }
+);
+
+// Runs one operation list (or preset) over many images: those listed in
+// `imageIds`, or every image matching `filter` (the GET /images filters).
+app.post(
+  "/batches",
+  authenticateToken,
+  rateLimit(RATE_LIMIT_POLICIES.process),
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
+    const body = req.body || {};
+
+    if ((body.imageIds === undefined) === (body.filter === undefined)) {
+      return res
+        .status(400)
+        .json({ message: "Provide either imageIds or filter, but not both." });
+    }
+    if (
+      body.imageIds !== undefined &&
+      (!Array.isArray(body.imageIds) ||
+        body.imageIds.length === 0 ||
+        !body.imageIds.every((id: unknown) => typeof id === "string"))
+    ) {
+      return res.status(400).json({ message: "imageIds must be a non-empty array of image ids." });
+    }
+    if (body.imageIds?.length > BATCH_MAX_IMAGES) {
+      return res
+        .status(400)
+        .json({ message: `A batch can include at most ${BATCH_MAX_IMAGES} images.` });
+    }
+    let filters: ImageFilters | undefined;
+    if (body.filter !== undefined) {
+      if (!body.filter || typeof body.filter !== "object") {
+        return res.status(400).json({ message: "filter must be an object." });
+      }
+      const parsed = parseImageFilters(body.filter, false);
+      if (Object.keys(parsed.errors).length > 0) {
+        return res.status(400).json({ message: "Invalid filter.", errors: parsed.errors });
+      }
+      filters = parsed.filters;
+    }
+
+    try {
+      const operations = await operationsFromBody(body, userPayload.username, res);
+      if (!operations) return;
+
+      const imageIds = filters
+        ? await findImageIds(userPayload.username, filters, BATCH_MAX_IMAGES)
+        : (body.imageIds as string[]).map((id) => `image:${path.basename(id)}`);
+      if (imageIds.length === 0) {
+        return res.status(400).json({ message: "No matching images to process." });
+      }
+      // Jobs are checked again as they start, so a batch stops where the
+      // day's processing time runs out.
+      await checkProcessingQuota(userPayload.username);
+      const batch = await createBatch({
+        user: userPayload.username,
+        imageIds,
+        operations,
+      });
+      if (!batch) {
+        return res.status(400).json({ message: "No matching images to process." });
+      }
+
+      res.status(202).json({
+        message: `Batch queued for ${batch.total} images.`,
+        batchId: batch.id,
+        batch,
+      });
+    } catch (err) {
+      if (err instanceof QuotaExceededError) return sendQuotaExceeded(res, err);
+      console.error("Error creating batch:", err);
+      res.status(500).json({ message: "Server error while queueing the batch." });
+    }
+  }
+);
+
+app.get("/batches", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+  const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+  try {
+    res.json({ batches: await listUserBatches(userPayload.username, limit) });
+  } catch (err) {
+    console.error("Error fetching batches:", err);
+    res.status(500).json({ message: "Server error while fetching batches." });
+  }
+});
+
+app.get("/batches/:id", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const batch = await getBatch(req.params.id);
+    if (!batch || batch.user !== userPayload.username) {
+      return res.status(404).json({ message: "Batch not found or access denied." });
+    }
+    res.json(batch);
+  } catch (err) {
+    console.error("Error fetching batch:", err);
+    res.status(500).json({ message: "Server error while fetching the batch." });
+  }
+});
+
+app.post(
+  "/batches/:id/cancel",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
+
+    try {
+      const batch = await getBatch(req.params.id);
+      if (!batch || batch.user !== userPayload.username) {
+        return res.status(404).json({ message: "Batch not found or access denied." });
+      }
+      res.json(await cancelBatch(batch.id));
+    } catch (err) {
+      console.error("Error cancelling batch:", err);
+      res.status(500).json({ message: "Server error while cancelling the batch." });
+    }
+  }
+);
+
+// Lists the user's images. GET /images/search uses the same listing with a
+// tag query in `q`, e.g. `beach AND (sunset OR night) NOT people`.
+async function sendImageList(req: Request, res: Response, requireQuery: boolean) {
+  const userPayload = req.user as { username: string };
+  const user = userPayload.username;
+
+  const limit: number = Math.min(parseInt(req.query.limit as string) || 10, 100);
+  const sortBy = (req.query.sortBy as string) || "original_filename";
+  const order = req.query.order === "desc" ? "desc" : "asc";
+  const cursor = req.query.cursor as string | undefined;
+
+  const { filters, errors } = parseImageFilters(req.query, requireQuery);
+  if (!(SORT_FIELDS as readonly string[]).includes(sortBy)) {
+    errors.sortBy = `must be one of: ${SORT_FIELDS.join(", ")}`;
+  }
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({ message: "Invalid query.", errors });
+  }
+
+  try {
+    const { images, nextCursor } = await listImages(user, {
+      sortBy: sortBy as SortField,
+      order,
+      limit,
+      cursor,
+      filters,
+    });
+
+    res.json({
+      totalImages: await countImages(user),
+      nextCursor,
+      images: images.map(toImageResponse),
+    });
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error("Error fetching images:", err);
+    res.status(500).json({ message: "Server error while fetching images." });
+  }
+}
+
+app.get("/images", authenticateToken, (req: Request, res: Response) =>
+  sendImageList(req, res, false)
+);
+
+app.get("/images/search", authenticateToken, (req: Request, res: Response) =>
+  sendImageList(req, res, true)
+);
+
+// The whole library, or the part matching the same filters as GET /images,
+// one folder per image.
+app.get("/export", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+  const { filters, errors } = parseImageFilters(req.query, false);
+  const { options, errors: optionErrors } = parseExportOptions(req.query);
+  Object.assign(errors, optionErrors);
+  if (Array.isArray(options.versions)) {
+    errors.versions = "must be all, current or none for a library export";
+  }
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({ message: "Invalid query.", errors });
+  }
+
+  try {
+    const imageIds = await findImageIds(userPayload.username, filters, Infinity);
+    if (imageIds.length === 0) {
+      return res.status(404).json({ message: "No images to export." });
+    }
+    await sendExport(res, userPayload.username, imageIds, options, "image-library.zip");
+  } catch (err) {
+    console.error("Error exporting library:", err);
+    res.status(500).json({ message: "Server error while exporting the library." });
+  }
+});
+
+// The user's tags with how many images carry each, for autocomplete.
+app.get("/tags", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+  const prefix = ((req.query.prefix as string) || "").trim().toLowerCase();
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  try {
+    res.json(await listUserTags(userPayload.username, prefix, limit));
+  } catch (err) {
+    console.error("Error fetching tags:", err);
+    res.status(500).json({ message: "Server error while fetching tags." });
+  }
+});
+
+app.get("/images/:id", authenticateToken, async (req: Request, res: Response) => {
+  const imageId = `image:${req.params.id}`;
+  const userPayload = req.user as { username: string };
+
+  try {
+    const metadata = await redisClient.hGetAll(imageId);
+    if (
+      Object.keys(metadata).length === 0 ||
+      metadata.user !== userPayload.username
+    ) {
+      return res
+        .status(404)
+        .json({ message: "Image not found or access denied." });
+    }
+    res.json(toImageResponse(metadata));
+  } catch (err) {
+    console.error("Error fetching image:", err);
+    res.status(500).json({ message: "Server error while fetching the image." });
+  }
+});
+
+// Checks that the image exists and belongs to the user, and sends a 404 if not.
+async function findOwnedImage(
+  imageId: string,
+  user: string,
+  res: Response
+): Promise<Record<string, string> | null> {
+  const metadata = await redisClient.hGetAll(imageId);
+  if (Object.keys(metadata).length === 0 || metadata.user !== user) {
+    res.status(404).json({ message: "Image not found or access denied." });
+    return null;
+  }
+  return metadata;
+}
+
+app.post(
+  "/images/:id/tags",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    const body = req.body || {};
+    if (!Array.isArray(body.tags) || body.tags.length === 0) {
+      return res.status(400).json({ message: "tags must be a non-empty array." });
+    }
+    let tags: string[];
+    try {
+      tags = body.tags.map(normalizeTag);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      const current: string[] = JSON.parse(metadata.tags || "[]");
+      if (new Set([...current, ...tags]).size > MAX_TAGS_PER_IMAGE) {
+        return res.status(400).json({
+          message: `An image can have at most ${MAX_TAGS_PER_IMAGE} tags.`,
+        });
+      }
+
+      const updated = await updateImageTags(imageId, userPayload.username, { add: tags });
+      if (!updated) {
+        return res.status(404).json({ message: "Image not found or access denied." });
+      }
+      res.json({ tags: updated });
+    } catch (err) {
+      console.error("Error adding tags:", err);
+      res.status(500).json({ message: "Server error while adding tags." });
+    }
+  }
+);
+
+// Renames one of the image's tags to `name`, merging if it already has `name`.
+app.put(
+  "/images/:id/tags/:tag",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    let from: string;
+    let to: string;
+    try {
+      from = normalizeTag(req.params.tag);
+      to = normalizeTag(req.body?.name);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      if (!(JSON.parse(metadata.tags || "[]") as string[]).includes(from)) {
+        return res.status(404).json({ message: "The image does not have that tag." });
+      }
+
+      const updated = await updateImageTags(imageId, userPayload.username, {
+        remove: [from],
+        add: [to],
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Image not found or access denied." });
+      }
+      res.json({ tags: updated });
+    } catch (err) {
+      console.error("Error renaming tag:", err);
+      res.status(500).json({ message: "Server error while renaming the tag." });
+    }
+  }
+);
+
+app.delete(
+  "/images/:id/tags/:tag",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    let tag: string;
+    try {
+      tag = normalizeTag(req.params.tag);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+
+    try {
+      if (!(await findOwnedImage(imageId, userPayload.username, res))) return;
+      const updated = await updateImageTags(imageId, userPayload.username, {
+        remove: [tag],
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Image not found or access denied." });
+      }
+      res.json({ tags: updated });
+    } catch (err) {
+      console.error("Error removing tag:", err);
+      res.status(500).json({ message: "Server error while removing the tag." });
+    }
+  }
+);
+
+// The image's version tree, rooted at the original upload.
+app.get(
+  "/images/:id/versions",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      res.json({
+        current: metadata.current_version || metadata.unique_filename,
+        lineage: buildLineage(metadata),
+      });
+    } catch (err) {
+      console.error("Error fetching versions:", err);
+      res.status(500).json({ message: "Server error while fetching versions." });
+    }
+  }
+);
+
+// Makes an earlier version (or the original) the image's current one. Later
+// processing starts from it unless the request names another source.
+app.post(
+  "/images/:id/versions/:filename/revert",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+    const { filename } = req.params;
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      if (
+        filename !== metadata.unique_filename &&
+        !versionFilenames(metadata).includes(filename)
+      ) {
+        return res.status(404).json({ message: "Version not found." });
+      }
+
+      await redisClient.hSet(imageId, "current_version", filename);
+      res.json({ message: "Reverted.", current: filename });
+    } catch (err) {
+      console.error("Error reverting version:", err);
+      res.status(500).json({ message: "Server error while reverting." });
+    }
+  }
+);
+
+// Deletes one version. Versions made from it are deleted too with
+// ?cascade=true; otherwise their existence is a 409.
+app.delete(
+  "/images/:id/versions/:filename",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+    const { filename } = req.params;
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      if (filename === metadata.unique_filename) {
+        return res.status(400).json({
+          message: "The original cannot be deleted on its own; delete the image instead.",
+        });
+      }
+      const versions = parseVersions(metadata);
+      const version = versions.find((entry) => entry.filename === filename);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found." });
+      }
+
+      const descendants = descendantsOf(versions, filename);
+      if (descendants.length > 0 && req.query.cascade !== "true") {
+        return res.status(409).json({
+          message: `${descendants.length} other version(s) were made from this one. Pass cascade=true to delete them as well.`,
+          dependents: descendants.map((entry) => entry.filename),
+        });
+      }
+
+      const filesToDelete = [filename, ...descendants.map((entry) => entry.filename)];
+      // Fall back to the deleted version's parent if it, or a version made
+      // from it, was current.
+      const parentExists = versions.some((entry) => entry.filename === version.parent);
+      const fallback = parentExists ? version.parent : metadata.unique_filename;
+      if (!(await removeVersions(imageId, filesToDelete, fallback))) {
+        return res.status(404).json({ message: "Image not found or access denied." });
+      }
+      await unregisterFiles(filesToDelete);
+      await addStoredBytes(
+        userPayload.username,
+        -[version, ...descendants].reduce((total, entry) => total + (entry.size || 0), 0)
+      );
+      await Promise.all(
+        filesToDelete.map((file) =>
+          storage.delete(file).catch((err) => {
+            console.error(`Failed to delete file ${file}:`, err);
+          })
+        )
+      );
+
+      res.json({ message: "Version deleted.", deleted: filesToDelete });
+    } catch (err) {
+      console.error("Error deleting version:", err);
+      res.status(500).json({ message: "Server error while deleting the version." });
+    }
+  }
+);
+
+// Short-lived URL for a file that can be used without an Authorization
+// header, e.g. directly as an <img src>.
+app.get(
+  "/images/:filename/url",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userPayload = req.user as { username: string };
+    const filename = req.params.filename;
+
+    if ((await fileOwner(filename)) !== userPayload.username) {
+      return res.status(404).json({ message: "File not found." });
+    }
+
+    // Prefer a URL straight to the storage backend when it can make one.
+    const signed = signFileUrl(filename);
+    const expiresIn = Math.floor((signed.expiresAt - Date.now()) / 1000);
+    const direct = await storage.presign(filename, expiresIn);
+    res.json(direct ? { url: direct, expiresAt: signed.expiresAt } : signed);
+  }
+);
+
+// Signed URLs carry their own authorization; everything else needs a token.
+const authenticateFileAccess = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.query.signature === undefined) {
+    return authenticateToken(req, res, next);
+  }
+  if (
+    !verifyFileSignature(
+      req.params.filename,
+      req.query.expires,
+      req.query.signature
+    )
+  ) {
+    return res.status(403).send("Link is invalid or has expired.");
+  }
+  res.locals.signedUrl = true;
+  next();
+};
+
+// The original's EXIF, IPTC, XMP and color profile. Images uploaded before
+// metadata was recorded have it read now and saved.
+app.get("/images/:id/metadata", authenticateToken, async (req: Request, res: Response) => {
+  const imageId = `image:${req.params.id}`;
+  const userPayload = req.user as { username: string };
+
+  try {
+    const imageMetadata = await findOwnedImage(imageId, userPayload.username, res);
+    if (!imageMetadata) return;
+    if (imageMetadata.file_metadata) {
+      return res.json({ metadata: JSON.parse(imageMetadata.file_metadata) });
+    }
+    const data = await readToBuffer(await storage.getStream(imageMetadata.unique_filename));
+    const metadata = await extractMetadata(data);
+    await redisClient.hSet(imageId, "file_metadata", JSON.stringify(metadata));
+    res.json({ metadata });
+  } catch (err) {
+    if (err instanceof FileNotFoundError) {
+      return res.status(404).json({ message: "The original file is missing." });
+    }
+    console.error(`Error reading metadata of ${imageId}:`, err);
+    res.status(500).json({ message: "Server error while reading the metadata." });
+  }
+});
+
+// How processed versions are written unless a request says otherwise.
+app.get("/metadata/defaults", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    res.json(await getMetadataDefaults(userPayload.username));
+  } catch (err) {
+    console.error("Error fetching metadata settings:", err);
+    res.status(500).json({ message: "Server error while fetching metadata settings." });
+  }
+});
+
+app.put("/metadata/defaults", authenticateToken, async (req: Request, res: Response) => {
+  const userPayload = req.user as { username: string };
+
+  try {
+    const { options, errors } = parseMetadataOptions(
+      req.body || {},
+      await getMetadataDefaults(userPayload.username)
+    );
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({ message: "Invalid metadata settings.", errors });
+    }
+    await setMetadataDefaults(userPayload.username, options);
+    res.json(options);
+  } catch (err) {
+    console.error("Error saving metadata settings:", err);
+    res.status(500).json({ message: "Server error while saving metadata settings." });
+  }
+});
+
+app.get(
+  "/images/:filename/file",
+  authenticateFileAccess,
+  async (req: Request, res: Response) => {
+    const filename = req.params.filename;
+
+    if (path.basename(filename) !== filename) {
+      return res.status(403).send("Forbidden");
+    }
+
+    const owner = await fileOwner(filename);
+    if (!res.locals.signedUrl) {
+      const userPayload = req.user as { username: string };
+      if (owner !== userPayload.username) {
+        return res.status(404).send("File not found.");
+      }
+    }
+
+    try {
+      // ?watermark=true applies the owner's default watermark on the way out;
+      // the stored file is left as it is.
+      if (req.query.watermark === "true" && owner) {
+        const { operation } = await getWatermarkDefaults(owner);
+        const data = await readToBuffer(await storage.getStream(filename));
+        res.type(path.extname(filename));
+        return res.send(await applyWatermark(data, operation));
+      }
+      // ?stripLocation=true and ?stripPersonal=true re-encode the file
+      // without those fields, if it has any; otherwise it is sent as stored.
+      if (req.query.stripLocation === "true" || req.query.stripPersonal === "true") {
+        const data = await readToBuffer(await storage.getStream(filename));
+        const metadata = await extractMetadata(data);
+        const options = {
+          stripLocation: req.query.stripLocation === "true",
+          stripPersonal: req.query.stripPersonal === "true",
+          colorProfile: "keep" as const,
+        };
+        res.type(path.extname(filename));
+        if (!needsStripping(metadata, options)) return res.send(data);
+        const { icc, format } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+        const image = await orientedImage(data);
+        const { data: stripped } = await encodeWithMetadata(
+          format
+            ? image.toFormat(
+                format as keyof sharp.FormatEnum,
+                // A quality makes sharp palette-quantize PNGs, so it is only
+                // given to the lossy formats.
+                ["jpeg", "webp", "avif", "heif"].includes(format) ? { quality: 95 } : {}
+              )
+            : image,
+          metadata,
+          icc,
+          options
+        );
+        return res.send(stripped);
+      }
+      const stream = await storage.getStream(filename);
+      res.type(path.extname(filename));
+      stream.on("error", (err) => {
+        console.error(`Error streaming file ${filename}:`, err);
+        res.destroy(err);
+      });
+      stream.pipe(res);
+    } catch (err) {
+      if (err instanceof FileNotFoundError) {
+        return res.status(404).send("File not found.");
+      }
+      console.error(`Error reading file ${filename}:`, err);
+      res.status(500).send("Server error while reading the file.");
+    }
+  }
+);
+
+// Streams a ZIP of the images with a manifest.json. Once streaming has begun
+// errors can only be reported by cutting the response short.
+async function sendExport(
+  res: Response,
+  user: string,
+  imageIds: string[],
+  options: ExportOptions,
+  archiveName: string
+) {
+  const archive = new ImageExport(options, imageIds.length > 1);
+  archive.zip.on("error", (err) => {
+    console.error("Error writing export:", err);
+    res.destroy(err);
+  });
+  res.attachment(archiveName);
+  res.type("application/zip");
+  archive.zip.outputStream.pipe(res);
+  try {
+    for (const imageId of imageIds) {
+      await archive.addImage(imageId);
+    }
+    archive.finish(user);
+  } catch (err) {
+    console.error("Error building export:", err);
+    res.destroy(err as Error);
+  }
+}
+
+app.get(
+  "/images/:id/export",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    const { options, errors } = parseExportOptions(req.query);
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({ message: "Invalid export options.", errors });
+    }
+
+    try {
+      const metadata = await findOwnedImage(imageId, userPayload.username, res);
+      if (!metadata) return;
+      const unknown = unknownVersions(metadata, options.versions);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          message: `Not versions of this image: ${unknown.join(", ")}`,
+        });
+      }
+      const name = path.parse(metadata.original_filename).name || "image";
+      await sendExport(res, userPayload.username, [imageId], options, `${name}-export.zip`);
+    } catch (err) {
+      console.error("Error exporting image:", err);
+      res.status(500).json({ message: "Server error while exporting the image." });
+    }
+  }
+);
+
+// Deletes the image's files and record and takes it out of its owner's
+// indexes, tag counts and storage usage.
+async function deleteImage(imageId: string, imageMetadata: Record<string, string>) {
+  const filesToDelete: string[] = [
+    imageMetadata.unique_filename,
+    ...versionFilenames(imageMetadata),
+  ].filter(Boolean);
+
+  await Promise.all(
+    filesToDelete.map((filename) =>
+      storage.delete(filename).catch((err) => {
+        console.error(`Failed to delete file ${filename}:`, err);
+      })
+    )
+  );
+
+  // Drop its tags from the user's counts while the record still exists.
+  await updateImageTags(imageId, imageMetadata.user, {
+    remove: JSON.parse(imageMetadata.tags || "[]"),
+  });
+  // Delete the image record from Redis
+  await redisClient.del(imageId);
+  await unregisterFiles(filesToDelete);
+  await addStoredBytes(
+    imageMetadata.user,
+    -parseVersions(imageMetadata).reduce(
+      (total, version) => total + (version.size || 0),
+      parseInt(imageMetadata.size || "0")
+    )
+  );
+  await unindexImage(
+    imageMetadata.user,
+    imageId,
+    imageMetadata.original_filename || ""
+  );
+}
+
+app.delete(
+  "/images/:id",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const imageId = `image:${req.params.id}`;
+    const userPayload = req.user as { username: string };
+
+    try {
+      const imageMetadata = await redisClient.hGetAll(imageId);
+
+      if (!imageMetadata || imageMetadata.user !== userPayload.username) {
+        return res
+          .status(404)
+          .json({ message: "Image not found or access denied." });
+      }
+
+      await deleteImage(imageId, imageMetadata);
+
+      res
+        .status(200)
+        .json({ message: "Image and all its versions deleted successfully." });
+    } catch (error) {
+      console.error("Error deleting image:", error);
+      res.status(500).json({ message: "Server error during deletion." });
+    }
+  }
+);
+
+// Admin routes. Every user's account with their plan and usage, the
+// biggest storage users first.
+app.get("/admin/users", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const users = await Promise.all(
+      (await listUsernames()).map(async (username) => ({
+        ...(await getAccount(username)),
+        usage: await getUsage(username),
+      }))
+    );
+    users.sort((a, b) => b.usage.storageBytes - a.usage.storageBytes);
+    res.json({ users });
+  } catch (err) {
+    console.error("Error listing users:", err);
+    res.status(500).json({ message: "Server error while listing users." });
+  }
+});
+
+// Changes a user's role, plan or suspension. Admins can't demote or
+// suspend themselves, so there is always someone left to undo it.
+app.patch(
+  "/admin/users/:username",
+  authenticateToken,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const adminPayload = req.user as { username: string };
+    const { username } = req.params;
+    const body = req.body || {};
+    if (!isValidUsername(username)) {
+      return res.status(400).json({ message: "Invalid username." });
+    }
+
+    const errors: Record<string, string> = {};
+    if (body.role !== undefined && !ROLES.includes(body.role)) {
+      errors.role = `must be one of: ${ROLES.join(", ")}`;
+    }
+    if (body.plan !== undefined && !PLANS.includes(body.plan)) {
+      errors.plan = `must be one of: ${PLANS.join(", ")}`;
+    }
+    if (body.suspended !== undefined && typeof body.suspended !== "boolean") {
+      errors.suspended = "must be a boolean";
+    }
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({ message: "Invalid account changes.", errors });
+    }
+    if (username === adminPayload.username && (body.role === "user" || body.suspended === true)) {
+      return res.status(400).json({ message: "You can't demote or suspend your own account." });
+    }
+
+    try {
+      if (!(await userExists(username))) {
+        return res.status(404).json({ message: "User not found." });
+      }
+      if (body.role !== undefined) await setRole(username, body.role as Role);
+      if (body.plan !== undefined) await setUserPlan(username, body.plan as Plan);
+      if (body.suspended !== undefined) await setSuspended(username, body.suspended);
+      res.json({ ...(await getAccount(username)), usage: await getUsage(username) });
+    } catch (err) {
+      console.error(`Error updating user ${username}:`, err);
+      res.status(500).json({ message: "Server error while updating the user." });
+    }
+  }
+);
+
+// Deletes the account with all its images, watermarks, presets, jobs and
+// batches. The user is signed out on their next request.
+app.delete(
+  "/admin/users/:username",
+  authenticateToken,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const adminPayload = req.user as { username: string };
+    const { username } = req.params;
+    if (!isValidUsername(username)) {
+      return res.status(400).json({ message: "Invalid username." });
+    }
+    if (username === adminPayload.username) {
+      return res.status(400).json({ message: "You can't delete your own account." });
+    }
+
+    try {
+      if (!(await userExists(username))) {
+        return res.status(404).json({ message: "User not found." });
+      }
+      // Suspended first so the user can't add anything while this runs.
+      await setSuspended(username, true);
+      await deleteUserJobs(username);
+      await deleteUserBatches(username);
+
+      const imageIds = await findImageIds(username, {}, Infinity);
+      for (const imageId of imageIds) {
+        const imageMetadata = await redisClient.hGetAll(imageId);
+        if (imageMetadata.user === username) await deleteImage(imageId, imageMetadata);
+      }
+      for (const watermark of await listWatermarks(username)) {
+        await deleteWatermark(watermark);
+      }
+      for (const preset of (await listPresets(username)).own) {
+        await deletePreset(preset);
+      }
+      await deleteUserKeys(username);
+
+      res.json({ message: `User ${username} deleted.`, deletedImages: imageIds.length });
+    } catch (err) {
+      console.error(`Error deleting user ${username}:`, err);
+      res.status(500).json({ message: "Server error while deleting the user." });
+    }
+  }
+);
+
+// Any user's image record, including its file metadata.
+app.get("/admin/images/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  const imageId = `image:${req.params.id}`;
+
+  try {
+    const metadata = await redisClient.hGetAll(imageId);
+    if (Object.keys(metadata).length === 0) {
+      return res.status(404).json({ message: "Image not found." });
+    }
+    res.json({
+      ...toImageResponse(metadata),
+      file_metadata: metadata.file_metadata ? JSON.parse(metadata.file_metadata) : null,
+    });
+  } catch (err) {
+    console.error("Error fetching image:", err);
+    res.status(500).json({ message: "Server error while fetching the image." });
+  }
+});
+
+// The job queues: counts, and the first `limit` jobs in each.
+app.get("/admin/jobs", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  try {
+    res.json(await queueSnapshot(limit));
+  } catch (err) {
+    console.error("Error fetching the job queue:", err);
+    res.status(500).json({ message: "Server error while fetching the job queue." });
+  }
+});
+
 const frontendPath = path.join(__dirname, "..", "frontend", "build");
 app.use(express.static(frontendPath));
 
@@ -0,0 +1,427 @@
+import crypto from "crypto";
+import { redisClient, RedisClient } from "./redis";
+import { ImageOperation } from "./operations";
+import { OutputMetadataOptions } from "./metadata";
+
+// Job ids waiting to be picked up, newest on the left.
+const PENDING_QUEUE = "queue:jobs";
+// Job ids a worker has claimed but not yet finished.
+const PROCESSING_QUEUE = "queue:processing";
+// Failed jobs waiting for their retry, scored by when they may run again.
+const DELAYED_QUEUE = "queue:delayed";
+// Jobs that used up all their attempts.
+export const DEAD_LETTER_QUEUE = "queue:dead";
+// Pub/sub channel every job state change is published on.
+const JOB_EVENTS_CHANNEL = "events:jobs";
+
+export const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || "3");
+const JOB_BACKOFF_MS = parseInt(process.env.JOB_BACKOFF_MS || "2000");
+// A claimed job whose heartbeat is older than this belonged to a worker that died.
+const JOB_STALL_TIMEOUT_MS = parseInt(
+  process.env.JOB_STALL_TIMEOUT_MS || "60000"
+);
+
+export type JobStatus =
+  | "queued"
+  | "processing"
+  | "retrying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface Job {
+  id: string;
+  image_id: string;
+  user: string;
+  source: string;
+  operations: ImageOperation[];
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  error?: string;
+  output_filename?: string;
+  progress: number;
+  current_step?: number;
+  current_operation?: string;
+  // Set on jobs created as part of a batch.
+  batch_id?: string;
+  // How to write the output's metadata; the user's defaults when absent.
+  output_metadata?: OutputMetadataOptions;
+  created_at: number;
+  updated_at: number;
+}
+
+const jobKey = (jobId: string) => `job:${jobId}`;
+export const userJobsKey = (user: string) => `user:${user}:jobs`;
+
+function parseJob(hash: Record<string, string>): Job | null {
+  if (!hash || Object.keys(hash).length === 0) return null;
+  return {
+    id: hash.id,
+    image_id: hash.image_id,
+    user: hash.user,
+    source: hash.source,
+    operations: JSON.parse(hash.operations || "[]"),
+    status: hash.status as JobStatus,
+    attempts: parseInt(hash.attempts || "0"),
+    max_attempts: parseInt(hash.max_attempts || String(JOB_MAX_ATTEMPTS)),
+    error: hash.error || undefined,
+    output_filename: hash.output_filename || undefined,
+    progress: parseInt(hash.progress || "0"),
+    current_step: hash.current_step ? parseInt(hash.current_step) : undefined,
+    current_operation: hash.current_operation || undefined,
+    batch_id: hash.batch_id || undefined,
+    output_metadata: hash.output_metadata ? JSON.parse(hash.output_metadata) : undefined,
+    created_at: parseInt(hash.created_at),
+    updated_at: parseInt(hash.updated_at),
+  };
+}
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  return parseJob(await redisClient.hGetAll(jobKey(jobId)));
+}
+
+// The user's most recent jobs, newest first.
+export async function listUserJobs(user: string, limit: number): Promise<Job[]> {
+  const jobIds = await redisClient.zRange(userJobsKey(user), 0, limit - 1, {
+    REV: true,
+  });
+  const jobs = await Promise.all(jobIds.map((jobId) => getJob(jobId)));
+  return jobs.filter((job): job is Job => job !== null);
+}
+
+async function publishJob(jobId: string): Promise<void> {
+  const job = await getJob(jobId);
+  if (job) {
+    await redisClient.publish(JOB_EVENTS_CHANNEL, JSON.stringify(job));
+  }
+}
+
+type JobListener = (job: Job) => void;
+
+const jobListeners = new Set<JobListener>();
+let jobSubscriber: Promise<RedisClient> | null = null;
+
+// Registers a listener for job state changes published by any process.
+// All listeners share one subscriber connection, opened on first use.
+// Returns a function that removes the listener again.
+export async function onJobEvent(listener: JobListener): Promise<() => void> {
+  if (!jobSubscriber) {
+    jobSubscriber = (async () => {
+      const subscriber = redisClient.duplicate();
+      await subscriber.connect();
+      await subscriber.subscribe(JOB_EVENTS_CHANNEL, (message) => {
+        const job: Job = JSON.parse(message);
+        jobListeners.forEach((notify) => notify(job));
+      });
+      return subscriber;
+    })();
+  }
+  await jobSubscriber;
+  jobListeners.add(listener);
+  return () => {
+    jobListeners.delete(listener);
+  };
+}
+
+export async function enqueueJob(input: {
+  imageId: string;
+  user: string;
+  source: string;
+  operations: ImageOperation[];
+  batchId?: string;
+  outputMetadata?: OutputMetadataOptions;
+}): Promise<string> {
+  const jobId = crypto.randomBytes(12).toString("hex");
+  const now = Date.now();
+
+  await redisClient
+    .multi()
+    .hSet(jobKey(jobId), {
+      id: jobId,
+      image_id: input.imageId,
+      user: input.user,
+      source: input.source,
+      operations: JSON.stringify(input.operations),
+      status: "queued",
+      attempts: 0,
+      max_attempts: JOB_MAX_ATTEMPTS,
+      progress: 0,
+      ...(input.batchId ? { batch_id: input.batchId } : {}),
+      ...(input.outputMetadata
+        ? { output_metadata: JSON.stringify(input.outputMetadata) }
+        : {}),
+      created_at: now,
+      updated_at: now,
+    })
+    .zAdd(userJobsKey(input.user), { score: now, value: jobId })
+    .lPush(PENDING_QUEUE, jobId)
+    .exec();
+
+  await publishJob(jobId);
+  return jobId;
+}
+
+// Blocks on `connection` for up to `timeoutSeconds` waiting for a job. The
+// connection must be dedicated to the caller, since BLMOVE holds it while
+// waiting. The job id stays in the processing list until it is completed or
+// failed, so a crashed worker's jobs can be recovered.
+export async function claimJob(
+  connection: RedisClient,
+  timeoutSeconds: number
+): Promise<Job | null> {
+  const jobId = await connection.blMove(
+    PENDING_QUEUE,
+    PROCESSING_QUEUE,
+    "RIGHT",
+    "LEFT",
+    timeoutSeconds
+  );
+  if (!jobId) return null;
+
+  const job = await getJob(jobId);
+  if (!job || job.status === "cancelled") {
+    // The job record is gone (e.g. its image was deleted) or the job was
+    // cancelled while being claimed; drop the id.
+    await redisClient.lRem(PROCESSING_QUEUE, 1, jobId);
+    return null;
+  }
+
+  const now = Date.now();
+  await redisClient.hSet(jobKey(jobId), {
+    status: "processing",
+    attempts: job.attempts + 1,
+    progress: 0,
+    heartbeat: now,
+    updated_at: now,
+  });
+  await publishJob(jobId);
+  return { ...job, status: "processing", attempts: job.attempts + 1 };
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled.`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Records which operation a job has reached and publishes the update.
+// Throws JobCancelledError if the job was cancelled while running, so the
+// worker stops before the next operation.
+export async function reportJobProgress(
+  job: Job,
+  step: number
+): Promise<void> {
+  if (await redisClient.hGet(jobKey(job.id), "cancel_requested")) {
+    throw new JobCancelledError(job.id);
+  }
+  await redisClient.hSet(jobKey(job.id), {
+    current_step: step,
+    current_operation: job.operations[step].type,
+    progress: Math.floor((step / job.operations.length) * 100),
+    updated_at: Date.now(),
+  });
+  await publishJob(job.id);
+}
+
+export async function touchJob(jobId: string): Promise<void> {
+  await redisClient.hSet(jobKey(jobId), "heartbeat", Date.now());
+}
+
+export async function completeJob(
+  jobId: string,
+  outputFilename: string
+): Promise<void> {
+  await redisClient
+    .multi()
+    .hSet(jobKey(jobId), {
+      status: "completed",
+      output_filename: outputFilename,
+      progress: 100,
+      updated_at: Date.now(),
+    })
+    .hDel(jobKey(jobId), ["error", "current_step", "current_operation"])
+    .lRem(PROCESSING_QUEUE, 1, jobId)
+    .exec();
+  await publishJob(jobId);
+}
+
+// Schedules another attempt with exponential backoff, or moves the job to
+// the dead-letter list once it has run out of attempts (or straight away if
+// it isn't `retryable`). Returns true if the job will be retried.
+export async function failJob(
+  job: Job,
+  error: unknown,
+  retryable = true
+): Promise<boolean> {
+  const message = error instanceof Error ? error.message : String(error);
+  const now = Date.now();
+  const retry = retryable && job.attempts < job.max_attempts;
+
+  const transaction = redisClient
+    .multi()
+    .hSet(jobKey(job.id), {
+      status: retry ? "retrying" : "failed",
+      error: message,
+      updated_at: now,
+    })
+    .hDel(jobKey(job.id), "heartbeat")
+    .lRem(PROCESSING_QUEUE, 1, job.id);
+
+  if (retry) {
+    const delay = JOB_BACKOFF_MS * 2 ** (job.attempts - 1);
+    transaction.zAdd(DELAYED_QUEUE, { score: now + delay, value: job.id });
+  } else {
+    transaction.lPush(DEAD_LETTER_QUEUE, job.id);
+  }
+
+  await transaction.exec();
+  await publishJob(job.id);
+  return retry;
+}
+
+// Cancels a job that is waiting to run, or flags a running one so the worker
+// stops it at the next operation. The script returns 1 if the job was
+// cancelled, 2 if cancellation was requested and 0 if it had already finished.
+const CANCEL_JOB_SCRIPT = `
+local status = redis.call('HGET', KEYS[1], 'status')
+if status == 'queued' or status == 'retrying' then
+  redis.call('LREM', KEYS[2], 0, ARGV[1])
+  redis.call('ZREM', KEYS[3], ARGV[1])
+  redis.call('HSET', KEYS[1], 'status', 'cancelled', 'updated_at', ARGV[2])
+  return 1
+elseif status == 'processing' then
+  redis.call('HSET', KEYS[1], 'cancel_requested', '1')
+  return 2
+end
+return 0
+`;
+
+export async function cancelJob(
+  jobId: string
+): Promise<"cancelled" | "requested" | "finished"> {
+  const result = await redisClient.eval(CANCEL_JOB_SCRIPT, {
+    keys: [jobKey(jobId), PENDING_QUEUE, DELAYED_QUEUE],
+    arguments: [jobId, String(Date.now())],
+  });
+  if (result === 1) {
+    await publishJob(jobId);
+    return "cancelled";
+  }
+  return result === 2 ? "requested" : "finished";
+}
+
+// Cancels the user's unfinished jobs and deletes their records. Jobs that
+// are running keep theirs until the worker has stopped them.
+export async function deleteUserJobs(user: string): Promise<void> {
+  const jobIds = await redisClient.zRange(userJobsKey(user), 0, -1);
+  for (const jobId of jobIds) {
+    if ((await cancelJob(jobId)) !== "requested") {
+      await redisClient.del(jobKey(jobId));
+    }
+  }
+}
+
+// Marks a running job whose cancellation the worker has acted on.
+export async function finishCancelledJob(jobId: string): Promise<void> {
+  await redisClient
+    .multi()
+    .hSet(jobKey(jobId), { status: "cancelled", updated_at: Date.now() })
+    .hDel(jobKey(jobId), ["cancel_requested", "current_step", "current_operation"])
+    .lRem(PROCESSING_QUEUE, 1, jobId)
+    .exec();
+  await publishJob(jobId);
+}
+
+// Moves retries whose backoff has elapsed back onto the pending queue.
+export async function promoteDelayedJobs(): Promise<void> {
+  const due = await redisClient.zRangeByScore(DELAYED_QUEUE, 0, Date.now());
+  for (const jobId of due) {
+    // Only the worker whose ZREM succeeds re-queues the job.
+    if ((await redisClient.zRem(DELAYED_QUEUE, jobId)) === 1) {
+      await redisClient
+        .multi()
+        .hSet(jobKey(jobId), { status: "queued", updated_at: Date.now() })
+        .lPush(PENDING_QUEUE, jobId)
+        .exec();
+      await publishJob(jobId);
+    }
+  }
+}
+
+// Puts jobs claimed by a worker that stopped sending heartbeats back on the
+// pending queue, or dead-letters them if they have no attempts left. A job
+// leaves the processing list without a heartbeat, so one that has none is
+// newly claimed rather than stalled.
+export async function recoverStalledJobs(): Promise<void> {
+  const claimed = await redisClient.lRange(PROCESSING_QUEUE, 0, -1);
+  const cutoff = Date.now() - JOB_STALL_TIMEOUT_MS;
+
+  for (const jobId of claimed) {
+    const lastBeat = await redisClient.hGet(jobKey(jobId), "heartbeat");
+    if (!lastBeat && (await redisClient.exists(jobKey(jobId)))) {
+      // Claimed moments ago and not yet marked as running. Its timeout
+      // starts now, so a worker that died in between is still caught.
+      await redisClient.hSetNX(jobKey(jobId), "heartbeat", String(Date.now()));
+      continue;
+    }
+    const heartbeat = parseInt(lastBeat || "0");
+    if (heartbeat > cutoff) continue;
+    if ((await redisClient.lRem(PROCESSING_QUEUE, 1, jobId)) !== 1) continue;
+
+    const job = await getJob(jobId);
+    if (!job) continue;
+    console.warn(`Recovering stalled job ${jobId}.`);
+    if (job.attempts < job.max_attempts) {
+      await redisClient
+        .multi()
+        .hSet(jobKey(jobId), { status: "queued", updated_at: Date.now() })
+        .hDel(jobKey(jobId), "heartbeat")
+        .lPush(PENDING_QUEUE, jobId)
+        .exec();
+    } else {
+      await redisClient
+        .multi()
+        .hSet(jobKey(jobId), {
+          status: "failed",
+          error: "Worker stopped while processing the job.",
+          updated_at: Date.now(),
+        })
+        .lPush(DEAD_LETTER_QUEUE, jobId)
+        .exec();
+    }
+    await publishJob(jobId);
+  }
+}
+
+export type QueueName = "pending" | "processing" | "delayed" | "dead";
+
+// How many jobs are in each queue, with the first `limit` of each: those
+// next to run, running, waiting to retry (soonest first) and most recently
+// given up on.
+export async function queueSnapshot(
+  limit: number
+): Promise<Record<QueueName, { count: number; jobs: Job[] }>> {
+  const [pendingCount, processingCount, delayedCount, deadCount] = await Promise.all([
+    redisClient.lLen(PENDING_QUEUE),
+    redisClient.lLen(PROCESSING_QUEUE),
+    redisClient.zCard(DELAYED_QUEUE),
+    redisClient.lLen(DEAD_LETTER_QUEUE),
+  ]);
+  const [pending, processing, delayed, dead] = await Promise.all([
+    // New jobs are pushed on the left and claimed from the right.
+    redisClient.lRange(PENDING_QUEUE, -limit, -1).then((ids) => ids.reverse()),
+    redisClient.lRange(PROCESSING_QUEUE, 0, limit - 1),
+    redisClient.zRange(DELAYED_QUEUE, 0, limit - 1),
+    redisClient.lRange(DEAD_LETTER_QUEUE, 0, limit - 1),
+  ]);
+  const load = async (jobIds: string[]) =>
+    (await Promise.all(jobIds.map(getJob))).filter((job): job is Job => job !== null);
+  return {
+    pending: { count: pendingCount, jobs: await load(pending) },
+    processing: { count: processingCount, jobs: await load(processing) },
+    delayed: { count: delayedCount, jobs: await load(delayed) },
+    dead: { count: deadCount, jobs: await load(dead) },
+  };
+}
@@ -0,0 +1,385 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import { redisClient } from "./redis";
+import { MAX_INPUT_PIXELS } from "./validation";
+
+type ExifValue = string | number | number[];
+
+export interface GpsLocation {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+}
+
+// What an uploaded file carries besides its pixels, as stored on the image
+// record under `file_metadata`.
+export interface FileMetadata {
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  // EXIF orientation, 1-8; outputs are always rotated upright.
+  orientation: number | null;
+  space: string | null;
+  // EXIF tags by group ("Image", "Photo", "GPSInfo", "Iop"), binary ones left out.
+  exif: Record<string, Record<string, ExifValue>> | null;
+  location: GpsLocation | null;
+  iptc: Record<string, string | string[]> | null;
+  xmp: string | null;
+  icc: { description: string | null; bytes: number } | null;
+}
+
+// How processed versions and downloads are written.
+export interface OutputMetadataOptions {
+  // Leave out GPS tags, and XMP, which may repeat them.
+  stripLocation: boolean;
+  // Leave out names, serial numbers and descriptions, and XMP.
+  stripPersonal: boolean;
+  // "keep" converts to and embeds the source's ICC profile; "srgb"
+  // converts to sRGB and embeds that.
+  colorProfile: "keep" | "srgb";
+}
+
+export const DEFAULT_OUTPUT_METADATA: OutputMetadataOptions = {
+  stripLocation: true,
+  stripPersonal: false,
+  colorProfile: "srgb",
+};
+
+const COLOR_PROFILES = ["keep", "srgb"];
+
+const MAX_XMP_LENGTH = 64 * 1024;
+const MAX_EXIF_STRING_LENGTH = 1000;
+
+// Tags that identify people or their equipment.
+const PERSONAL_TAGS = [
+  "Artist",
+  "Copyright",
+  "ImageDescription",
+  "CameraOwnerName",
+  "BodySerialNumber",
+  "LensSerialNumber",
+];
+
+// The tags copied to outputs, by the IFD libvips writes them to. Offsets,
+// dimensions, orientation and thumbnails describe the source file and would
+// be wrong on a processed one.
+const OUTPUT_TAGS: Record<string, { group: keyof exifReader.Exif; tags: string[] }> = {
+  IFD0: {
+    group: "Image",
+    tags: ["Make", "Model", "Software", "DateTime", "ImageDescription", "Artist", "Copyright"],
+  },
+  IFD2: {
+    group: "Photo",
+    tags: [
+      "DateTimeOriginal",
+      "DateTimeDigitized",
+      "ExposureTime",
+      "FNumber",
+      "ISOSpeedRatings",
+      "ExposureBiasValue",
+      "Flash",
+      "FocalLength",
+      "FocalLengthIn35mmFilm",
+      "WhiteBalance",
+      "LensMake",
+      "LensModel",
+      "CameraOwnerName",
+      "BodySerialNumber",
+      "LensSerialNumber",
+    ],
+  },
+  IFD3: {
+    group: "GPSInfo",
+    tags: [
+      "GPSLatitudeRef",
+      "GPSLatitude",
+      "GPSLongitudeRef",
+      "GPSLongitude",
+      "GPSAltitudeRef",
+      "GPSAltitude",
+      "GPSTimeStamp",
+      "GPSDateStamp",
+    ],
+  },
+};
+
+// IPTC-IIM datasets of the application record (2) worth showing.
+const IPTC_DATASETS: Record<number, string> = {
+  5: "ObjectName",
+  25: "Keywords",
+  55: "DateCreated",
+  80: "Byline",
+  85: "BylineTitle",
+  90: "City",
+  95: "ProvinceState",
+  101: "Country",
+  105: "Headline",
+  110: "Credit",
+  115: "Source",
+  116: "CopyrightNotice",
+  120: "Caption",
+};
+
+export const userMetadataDefaultsKey = (user: string) => `user:${user}:metadata_defaults`;
+
+// "2021:06:01 12:00:00", the way EXIF writes dates; exif-reader reads them
+// as UTC.
+const exifDate = (date: Date) =>
+  date.toISOString().slice(0, 19).replace(/-/g, ":").replace("T", " ");
+
+function exifValue(value: unknown): ExifValue | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : exifDate(value);
+  }
+  if (typeof value === "string") {
+    const trimmed = value.replace(/\0+$/, "").trim();
+    return trimmed ? trimmed.slice(0, MAX_EXIF_STRING_LENGTH) : undefined;
+  }
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (Array.isArray(value) && value.every((n) => typeof n === "number")) {
+    return value.slice(0, 64);
+  }
+  return undefined;
+}
+
+function readExif(exif: Buffer): Record<string, Record<string, ExifValue>> | null {
+  let parsed: exifReader.Exif;
+  try {
+    parsed = exifReader(exif);
+  } catch {
+    return null;
+  }
+  const groups: Record<string, Record<string, ExifValue>> = {};
+  for (const group of ["Image", "Photo", "GPSInfo", "Iop"] as const) {
+    const tags = parsed[group];
+    if (!tags) continue;
+    const values: Record<string, ExifValue> = {};
+    for (const [tag, raw] of Object.entries(tags)) {
+      if (tag === "MakerNote") continue;
+      const value = exifValue(raw);
+      if (value !== undefined) values[tag] = value;
+    }
+    if (Object.keys(values).length > 0) groups[group] = values;
+  }
+  return Object.keys(groups).length > 0 ? groups : null;
+}
+
+function readLocation(gps: Record<string, ExifValue> | undefined): GpsLocation | null {
+  const degrees = (value: ExifValue | undefined, ref: ExifValue | undefined, negative: string) => {
+    if (!Array.isArray(value) || value.length === 0) return null;
+    const [d, m = 0, s = 0] = value;
+    const decimal = d + m / 60 + s / 3600;
+    return ref === negative ? -decimal : decimal;
+  };
+  const latitude = degrees(gps?.GPSLatitude, gps?.GPSLatitudeRef, "S");
+  const longitude = degrees(gps?.GPSLongitude, gps?.GPSLongitudeRef, "W");
+  if (latitude === null || longitude === null) return null;
+  const altitude = typeof gps?.GPSAltitude === "number" ? gps.GPSAltitude : null;
+  return {
+    latitude,
+    longitude,
+    // Ref 1 means below sea level.
+    altitude: altitude !== null && gps?.GPSAltitudeRef === 1 ? -altitude : altitude,
+  };
+}
+
+// Scans for IPTC-IIM datasets, which works both on bare IIM data and on the
+// Photoshop resource block JPEGs wrap it in.
+function readIptc(iptc: Buffer): Record<string, string | string[]> | null {
+  const fields: Record<string, string | string[]> = {};
+  for (let i = 0; i + 5 <= iptc.length; i++) {
+    if (iptc[i] !== 0x1c || iptc[i + 1] !== 2) continue;
+    const name = IPTC_DATASETS[iptc[i + 2]];
+    const length = iptc.readUInt16BE(i + 3);
+    // A set high bit means an extended length, which none of these use.
+    if (length & 0x8000 || i + 5 + length > iptc.length) continue;
+    if (name) {
+      const value = iptc.toString("utf8", i + 5, i + 5 + length).replace(/\0+$/, "").trim();
+      if (value && name === "Keywords") {
+        fields.Keywords = [...((fields.Keywords as string[]) || []), value];
+      } else if (value) {
+        fields[name] = value;
+      }
+    }
+    i += 4 + length;
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+}
+
+// The profile's description tag: "desc" in version 2 profiles, "mluc" (the
+// first translation) in version 4 ones.
+function iccDescription(icc: Buffer): string | null {
+  try {
+    const count = icc.readUInt32BE(128);
+    for (let i = 0; i < count; i++) {
+      const entry = 132 + i * 12;
+      if (icc.toString("latin1", entry, entry + 4) !== "desc") continue;
+      const offset = icc.readUInt32BE(entry + 4);
+      const type = icc.toString("latin1", offset, offset + 4);
+      if (type === "desc") {
+        const length = icc.readUInt32BE(offset + 8);
+        return icc.toString("latin1", offset + 12, offset + 12 + length).replace(/\0+$/, "") || null;
+      }
+      if (type === "mluc") {
+        const length = icc.readUInt32BE(offset + 20);
+        const start = offset + icc.readUInt32BE(offset + 24);
+        return icc.subarray(start, start + length).swap16().toString("utf16le") || null;
+      }
+    }
+  } catch {
+    // A truncated profile has no readable description.
+  }
+  return null;
+}
+
+// Reads everything but the pixels from an image file.
+export async function extractMetadata(data: Buffer): Promise<FileMetadata> {
+  const metadata = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  const exif = metadata.exif ? readExif(metadata.exif) : null;
+  return {
+    format: metadata.format ?? null,
+    width: metadata.width ?? null,
+    height: metadata.height ?? null,
+    orientation: metadata.orientation ?? null,
+    space: metadata.space ?? null,
+    exif,
+    location: readLocation(exif?.GPSInfo),
+    iptc: metadata.iptc ? readIptc(metadata.iptc) : null,
+    xmp: metadata.xmp ? metadata.xmp.toString("utf8").slice(0, MAX_XMP_LENGTH) : null,
+    icc: metadata.icc
+      ? { description: iccDescription(Buffer.from(metadata.icc)), bytes: metadata.icc.length }
+      : null,
+  };
+}
+
+export async function getMetadataDefaults(user: string): Promise<OutputMetadataOptions> {
+  const stored = await redisClient.get(userMetadataDefaultsKey(user));
+  return stored ? { ...DEFAULT_OUTPUT_METADATA, ...JSON.parse(stored) } : DEFAULT_OUTPUT_METADATA;
+}
+
+export async function setMetadataDefaults(
+  user: string,
+  options: OutputMetadataOptions
+): Promise<void> {
+  await redisClient.set(userMetadataDefaultsKey(user), JSON.stringify(options));
+}
+
+// Reads options given as an object of booleans (or "true"/"false" strings,
+// from a query) over `defaults`. Errors are keyed under `field` if given,
+// e.g. "metadata.stripLocation".
+export function parseMetadataOptions(
+  input: unknown,
+  defaults: OutputMetadataOptions,
+  field?: string
+): { options: OutputMetadataOptions; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const options = { ...defaults };
+  if (input === undefined) return { options, errors };
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    errors[field ?? "body"] = "must be an object";
+    return { options, errors };
+  }
+  const values = input as Record<string, unknown>;
+  const key = (name: string) => (field ? `${field}.${name}` : name);
+  for (const flag of ["stripLocation", "stripPersonal"] as const) {
+    const value = values[flag];
+    if (value === undefined) continue;
+    if (value === true || value === "true") options[flag] = true;
+    else if (value === false || value === "false") options[flag] = false;
+    else errors[key(flag)] = "must be a boolean";
+  }
+  if (values.colorProfile !== undefined) {
+    if (COLOR_PROFILES.includes(values.colorProfile as string)) {
+      options.colorProfile = values.colorProfile as OutputMetadataOptions["colorProfile"];
+    } else {
+      errors[key("colorProfile")] = `must be one of: ${COLOR_PROFILES.join(", ")}`;
+    }
+  }
+  return { options, errors };
+}
+
+// Whether writing `metadata` with `options` would drop anything the options
+// ask to strip, i.e. whether a download has to be re-encoded.
+export function needsStripping(metadata: FileMetadata, options: OutputMetadataOptions): boolean {
+  const tags = Object.values(metadata.exif ?? {}).flatMap((group) => Object.keys(group));
+  const personal = tags.some((tag) => PERSONAL_TAGS.includes(tag)) || metadata.iptc !== null;
+  return (
+    (options.stripLocation && (metadata.location !== null || metadata.xmp !== null)) ||
+    (options.stripPersonal && (personal || metadata.xmp !== null))
+  );
+}
+
+// libvips takes every EXIF value as a string, rationals as "n/d".
+function libvipsValue(value: ExifValue): string {
+  const format = (n: number) =>
+    Number.isInteger(n) ? String(n) : `${Math.round(n * 10000)}/10000`;
+  return Array.isArray(value) ? value.map(format).join(" ") : typeof value === "number" ? format(value) : value;
+}
+
+function outputExif(
+  exif: FileMetadata["exif"],
+  options: OutputMetadataOptions
+): Record<string, Record<string, string>> {
+  const ifds: Record<string, Record<string, string>> = {};
+  for (const [ifd, { group, tags }] of Object.entries(OUTPUT_TAGS)) {
+    if (ifd === "IFD3" && options.stripLocation) continue;
+    const values: Record<string, string> = {};
+    for (const tag of tags) {
+      const value = exif?.[group]?.[tag];
+      if (value === undefined) continue;
+      if (options.stripPersonal && PERSONAL_TAGS.includes(tag)) continue;
+      values[tag] = libvipsValue(value);
+    }
+    if (Object.keys(values).length > 0) ifds[ifd] = values;
+  }
+  return ifds;
+}
+
+// Encodes `image` with the source's metadata as `options` allow: the EXIF
+// tags that still describe it, XMP unless anything is being stripped, and
+// the chosen color profile. IPTC isn't written back. The orientation tag is
+// dropped, since pipelines start from the upright image.
+export async function encodeWithMetadata(
+  image: sharp.Sharp,
+  source: FileMetadata,
+  sourceIcc: Buffer | undefined,
+  options: OutputMetadataOptions
+): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+  let profileFile: string | undefined;
+  try {
+    if (options.colorProfile === "keep" && sourceIcc) {
+      // sharp only takes custom profiles from a file.
+      profileFile = path.join(os.tmpdir(), `icc-${crypto.randomBytes(8).toString("hex")}.icc`);
+      await fs.writeFile(profileFile, sourceIcc);
+    }
+    let output = image.withIccProfile(profileFile ?? "srgb");
+    const exif = outputExif(source.exif, options);
+    if (Object.keys(exif).length > 0) output = output.withExif(exif);
+    if (source.xmp && !options.stripLocation && !options.stripPersonal) {
+      output = output.withXmp(source.xmp);
+    }
+    return await output.toBuffer({ resolveWithObject: true });
+  } finally {
+    if (profileFile) await fs.rm(profileFile, { force: true });
+  }
+}
+
+// The image rotated upright by its EXIF orientation, as raw pixels so
+// operations such as crops see it the way it is displayed.
+export async function orientedImage(data: Buffer): Promise<sharp.Sharp> {
+  const { orientation } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  if (!orientation || orientation === 1) {
+    return sharp(data, { limitInputPixels: MAX_INPUT_PIXELS });
+  }
+  const { data: pixels, info } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return sharp(pixels, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+}
@@ -0,0 +1,803 @@
+import sharp from "sharp";
+import { renderWatermark } from "./watermarks";
+import { PALETTES, Palette } from "./procedural";
+import { renderPattern } from "./patterns";
+import { displace } from "./displacement";
+
+type Gravity =
+  | "north"
+  | "northeast"
+  | "east"
+  | "southeast"
+  | "south"
+  | "southwest"
+  | "west"
+  | "northwest"
+  | "center";
+
+type BlendMode =
+  | "over"
+  | "add"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion";
+
+type FitMode = "cover" | "contain" | "fill" | "inside" | "outside";
+
+type OutputFormat = "jpeg" | "png" | "webp" | "avif";
+
+const GRAVITIES: Gravity[] = [
+  "north",
+  "northeast",
+  "east",
+  "southeast",
+  "south",
+  "southwest",
+  "west",
+  "northwest",
+  "center",
+];
+
+const BLEND_MODES: BlendMode[] = [
+  "over",
+  "add",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+];
+
+const FIT_MODES: FitMode[] = ["cover", "contain", "fill", "inside", "outside"];
+
+const OUTPUT_FORMATS: OutputFormat[] = ["jpeg", "png", "webp", "avif"];
+
+type WatermarkFont = "sans-serif" | "serif" | "monospace";
+
+const WATERMARK_FONTS: WatermarkFont[] = ["sans-serif", "serif", "monospace"];
+
+// Shared by the generated patterns. Absent from steps saved before patterns
+// were seeded; those render with the schema's defaults.
+type PatternParams = { seed?: number; octaves?: number; palette?: Palette };
+
+export type ImageOperation =
+  | { type: "resize"; width?: number; height?: number; fit: FitMode; withoutEnlargement: boolean }
+  | { type: "extract"; left: number; top: number; width: number; height: number }
+  | { type: "rotate"; angle: number; background: string }
+  | { type: "flip" }
+  | { type: "flop" }
+  | { type: "blur"; sigma: number }
+  | { type: "modulate"; brightness: number; saturation: number; hue: number; lightness: number }
+  | { type: "gamma"; gamma: number; gammaOut?: number }
+  | { type: "trim"; threshold: number }
+  | { type: "format"; format: OutputFormat; quality: number }
+  | { type: "sharpen"; sigma: number; m1: number; m2: number }
+  | {
+      type: "composite";
+      // Absent from watermark steps saved before text and scaling existed;
+      // those render the built-in image at its own size.
+      mode?: "image" | "text";
+      // A user watermark's id; empty for the built-in one.
+      watermarkId?: string;
+      text?: string;
+      font?: WatermarkFont;
+      color?: string;
+      scale?: number;
+      gravity: Gravity | "tile";
+      opacity: number;
+      blend: BlendMode;
+    }
+  | { type: "tint"; color: string }
+  | { type: "negate"; alpha: boolean }
+  | { type: "convolve"; width: number; height: number; kernel: number[]; scale: number; offset: number }
+  | { type: "median"; size: number }
+  | { type: "recomb"; matrix: number[] }
+  | ({ type: "fractal_noise"; scale: number; color: string; blend: BlendMode; opacity: number } & PatternParams)
+  // Absent from steps saved before this was a displacement; those use the
+  // default amount.
+  | { type: "chromatic_aberration"; amount?: number }
+  | { type: "oil_painting"; size: number; saturation: number }
+  | ({ type: "holographic"; frequency: number; scale?: number; blend: BlendMode; opacity: number } & PatternParams)
+  | { type: "edge_enhance_extreme"; strength: number }
+  // Likewise for swirls saved before vortex was a displacement.
+  | { type: "vortex"; centerX?: number; centerY?: number; radius?: number; strength?: number }
+  | { type: "lens"; amount: number }
+  | { type: "ripple"; centerX: number; centerY: number; amplitude: number; wavelength: number }
+  | { type: "pinch"; centerX: number; centerY: number; radius: number; amount: number }
+  | ({ type: "plasma"; scale: number; blend: BlendMode; opacity: number } & PatternParams)
+  | ({ type: "aurora"; scale?: number; blend: BlendMode; opacity: number } & PatternParams);
+
+export type OperationType = ImageOperation["type"];
+
+export type ParamSpec =
+  | { kind: "number"; label: string; min: number; max: number; step?: number; default?: number; optional?: boolean }
+  | { kind: "integer"; label: string; min: number; max: number; default?: number; optional?: boolean }
+  | { kind: "boolean"; label: string; default: boolean }
+  | { kind: "color"; label: string; default: string }
+  | { kind: "enum"; label: string; options: string[]; default: string }
+  | { kind: "string"; label: string; maxLength: number; default: string }
+  | { kind: "numberArray"; label: string; minLength: number; maxLength: number; default: number[] };
+
+export interface OperationSchema {
+  label: string;
+  params: Record<string, ParamSpec>;
+}
+
+const blendParam = (defaultBlend: BlendMode): ParamSpec => ({
+  kind: "enum",
+  label: "Blend mode",
+  options: BLEND_MODES,
+  default: defaultBlend,
+});
+
+const opacityParam: ParamSpec = {
+  kind: "number",
+  label: "Opacity",
+  min: 0,
+  max: 1,
+  step: 0.05,
+  default: 1,
+};
+
+// The same seed and parameters always give the same pattern.
+const seedParam: ParamSpec = { kind: "integer", label: "Seed", min: 0, max: 2147483647, default: 0 };
+
+const scaleParam: ParamSpec = { kind: "number", label: "Scale", min: 0.1, max: 10, step: 0.1, default: 1 };
+
+const octavesParam = (defaultOctaves: number): ParamSpec => ({
+  kind: "integer",
+  label: "Detail (octaves)",
+  min: 1,
+  max: 8,
+  default: defaultOctaves,
+});
+
+// Displacement centers are shares of the image's size, radii shares of its
+// shorter side, so steps work the same on any resolution.
+const centerParam = (axis: "X" | "Y"): ParamSpec => ({
+  kind: "number",
+  label: `Center ${axis} (share of ${axis === "X" ? "width" : "height"})`,
+  min: 0,
+  max: 1,
+  step: 0.01,
+  default: 0.5,
+});
+
+const radiusParam: ParamSpec = {
+  kind: "number",
+  label: "Radius (share of shorter side)",
+  min: 0.01,
+  max: 1,
+  step: 0.01,
+  default: 0.5,
+};
+
+const paletteParam = (defaultPalette: Palette, options: Palette[] = PALETTES): ParamSpec => ({
+  kind: "enum",
+  label: "Palette",
+  options,
+  default: defaultPalette,
+});
+
+// Every operation the pipeline understands, with the parameters it accepts.
+// This is also served to the dashboard so it can build the parameter forms.
+export const operationSchemas: Record<OperationType, OperationSchema> = {
+  resize: {
+    label: "Resize",
+    params: {
+      width: { kind: "integer", label: "Width", min: 1, max: 10000, optional: true },
+      height: { kind: "integer", label: "Height", min: 1, max: 10000, optional: true },
+      fit: { kind: "enum", label: "Fit", options: FIT_MODES, default: "cover" },
+      withoutEnlargement: { kind: "boolean", label: "Never enlarge", default: false },
+    },
+  },
+  extract: {
+    label: "Crop",
+    params: {
+      left: { kind: "integer", label: "Left", min: 0, max: 10000, default: 0 },
+      top: { kind: "integer", label: "Top", min: 0, max: 10000, default: 0 },
+      width: { kind: "integer", label: "Width", min: 1, max: 10000, default: 500 },
+      height: { kind: "integer", label: "Height", min: 1, max: 10000, default: 500 },
+    },
+  },
+  rotate: {
+    label: "Rotate",
+    params: {
+      angle: { kind: "number", label: "Angle", min: -360, max: 360, step: 1, default: 90 },
+      background: { kind: "color", label: "Background", default: "#000000" },
+    },
+  },
+  flip: {
+    label: "Flip vertically",
+    params: {},
+  },
+  flop: {
+    label: "Flip horizontally",
+    params: {},
+  },
+  blur: {
+    label: "Gaussian blur",
+    params: {
+      sigma: { kind: "number", label: "Sigma", min: 0.3, max: 1000, step: 0.1, default: 3 },
+    },
+  },
+  modulate: {
+    label: "Adjust colors",
+    params: {
+      brightness: { kind: "number", label: "Brightness", min: 0, max: 5, step: 0.05, default: 1 },
+      saturation: { kind: "number", label: "Saturation", min: 0, max: 5, step: 0.05, default: 1 },
+      hue: { kind: "integer", label: "Hue rotation", min: -360, max: 360, default: 0 },
+      lightness: { kind: "number", label: "Lightness", min: -100, max: 100, step: 1, default: 0 },
+    },
+  },
+  gamma: {
+    label: "Gamma",
+    params: {
+      gamma: { kind: "number", label: "Gamma", min: 1, max: 3, step: 0.1, default: 2.2 },
+      gammaOut: { kind: "number", label: "Output gamma", min: 1, max: 3, step: 0.1, optional: true },
+    },
+  },
+  trim: {
+    label: "Trim borders",
+    params: {
+      threshold: { kind: "number", label: "Threshold", min: 0, max: 255, step: 1, default: 10 },
+    },
+  },
+  format: {
+    label: "Output format",
+    params: {
+      format: { kind: "enum", label: "Format", options: OUTPUT_FORMATS, default: "jpeg" },
+      quality: { kind: "integer", label: "Quality", min: 1, max: 100, default: 80 },
+    },
+  },
+  sharpen: {
+    label: "Sharpen",
+    params: {
+      sigma: { kind: "number", label: "Sigma", min: 0.3, max: 10, step: 0.1, default: 2 },
+      m1: { kind: "number", label: "Flat areas", min: 0, max: 10, step: 0.1, default: 1 },
+      m2: { kind: "number", label: "Jagged areas", min: 0, max: 20, step: 0.1, default: 2 },
+    },
+  },
+  composite: {
+    label: "Watermark",
+    params: {
+      mode: { kind: "enum", label: "Type", options: ["image", "text"], default: "image" },
+      watermarkId: { kind: "string", label: "Watermark image", maxLength: 64, default: "" },
+      text: { kind: "string", label: "Text", maxLength: 200, default: "©" },
+      font: { kind: "enum", label: "Font", options: WATERMARK_FONTS, default: "sans-serif" },
+      color: { kind: "color", label: "Text color", default: "#ffffff" },
+      scale: {
+        kind: "number",
+        label: "Size (share of image width)",
+        min: 0.02,
+        max: 1,
+        step: 0.01,
+        default: 0.25,
+      },
+      gravity: {
+        kind: "enum",
+        label: "Position",
+        options: [...GRAVITIES, "tile"],
+        default: "southeast",
+      },
+      opacity: opacityParam,
+      blend: blendParam("over"),
+    },
+  },
+  tint: {
+    label: "Tint",
+    params: {
+      color: { kind: "color", label: "Color", default: "#fff096" },
+    },
+  },
+  negate: {
+    label: "Negate",
+    params: {
+      alpha: { kind: "boolean", label: "Negate alpha", default: false },
+    },
+  },
+  convolve: {
+    label: "Convolve",
+    params: {
+      width: { kind: "integer", label: "Kernel width", min: 3, max: 7, default: 3 },
+      height: { kind: "integer", label: "Kernel height", min: 3, max: 7, default: 3 },
+      kernel: {
+        kind: "numberArray",
+        label: "Kernel",
+        minLength: 9,
+        maxLength: 49,
+        default: [-2, -1, 0, -1, 1, 1, 0, 1, 2],
+      },
+      scale: { kind: "number", label: "Scale", min: 0.01, max: 1000, step: 0.01, default: 1 },
+      offset: { kind: "number", label: "Offset", min: -255, max: 255, step: 1, default: 0 },
+    },
+  },
+  median: {
+    label: "Median",
+    params: {
+      size: { kind: "integer", label: "Window size", min: 1, max: 50, default: 10 },
+    },
+  },
+  recomb: {
+    label: "Recombine",
+    params: {
+      matrix: {
+        kind: "numberArray",
+        label: "3x3 matrix",
+        minLength: 9,
+        maxLength: 9,
+        default: [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722],
+      },
+    },
+  },
+  fractal_noise: {
+    label: "Fractal noise",
+    params: {
+      seed: seedParam,
+      scale: scaleParam,
+      octaves: octavesParam(4),
+      palette: paletteParam("color", ["color", ...PALETTES]),
+      color: { kind: "color", label: "Color", default: "#ffcc99" },
+      blend: blendParam("overlay"),
+      opacity: opacityParam,
+    },
+  },
+  chromatic_aberration: {
+    label: "Chromatic aberration",
+    params: {
+      amount: { kind: "number", label: "Amount (% at the corners)", min: 0, max: 10, step: 0.1, default: 1 },
+    },
+  },
+  oil_painting: {
+    label: "Oil painting",
+    params: {
+      size: { kind: "integer", label: "Brush size", min: 1, max: 15, default: 3 },
+      saturation: { kind: "number", label: "Saturation", min: 0, max: 3, step: 0.05, default: 1.3 },
+    },
+  },
+  holographic: {
+    label: "Holographic",
+    params: {
+      seed: seedParam,
+      frequency: { kind: "number", label: "Frequency", min: 0.01, max: 1, step: 0.01, default: 0.1 },
+      scale: scaleParam,
+      octaves: octavesParam(2),
+      palette: paletteParam("rainbow"),
+      blend: blendParam("screen"),
+      opacity: opacityParam,
+    },
+  },
+  edge_enhance_extreme: {
+    label: "Extreme edges",
+    params: {
+      strength: { kind: "number", label: "Strength", min: 0.1, max: 5, step: 0.1, default: 1.8 },
+    },
+  },
+  vortex: {
+    label: "Swirl",
+    params: {
+      centerX: centerParam("X"),
+      centerY: centerParam("Y"),
+      radius: radiusParam,
+      strength: { kind: "number", label: "Strength (degrees)", min: -1080, max: 1080, step: 5, default: 270 },
+    },
+  },
+  lens: {
+    label: "Lens distortion",
+    params: {
+      amount: {
+        kind: "number",
+        label: "Amount (barrel > 0 > pincushion)",
+        min: -0.5,
+        max: 1,
+        step: 0.05,
+        default: 0.3,
+      },
+    },
+  },
+  ripple: {
+    label: "Ripple",
+    params: {
+      centerX: centerParam("X"),
+      centerY: centerParam("Y"),
+      amplitude: { kind: "number", label: "Amplitude (% of shorter side)", min: 0, max: 10, step: 0.1, default: 1 },
+      wavelength: { kind: "number", label: "Wavelength (% of shorter side)", min: 1, max: 100, step: 1, default: 10 },
+    },
+  },
+  pinch: {
+    label: "Pinch",
+    params: {
+      centerX: centerParam("X"),
+      centerY: centerParam("Y"),
+      radius: radiusParam,
+      amount: { kind: "number", label: "Amount (pinch > 0 > bulge)", min: -1, max: 1, step: 0.05, default: 0.5 },
+    },
+  },
+  plasma: {
+    label: "Plasma",
+    params: {
+      seed: seedParam,
+      scale: scaleParam,
+      octaves: octavesParam(3),
+      palette: paletteParam("rainbow"),
+      blend: blendParam("multiply"),
+      opacity: opacityParam,
+    },
+  },
+  aurora: {
+    label: "Aurora",
+    params: {
+      seed: seedParam,
+      scale: scaleParam,
+      octaves: octavesParam(4),
+      palette: paletteParam("aurora"),
+      blend: blendParam("soft-light"),
+      opacity: { ...opacityParam, default: 0.6 },
+    },
+  },
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function validateParam(spec: ParamSpec, value: unknown): string | null {
+  switch (spec.kind) {
+    case "number":
+    case "integer":
+      if (value === undefined && spec.optional) {
+        return null;
+      }
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "must be a number";
+      }
+      if (spec.kind === "integer" && !Number.isInteger(value)) {
+        return "must be an integer";
+      }
+      if (value < spec.min || value > spec.max) {
+        return `must be between ${spec.min} and ${spec.max}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+    case "color":
+      return typeof value === "string" && HEX_COLOR.test(value)
+        ? null
+        : "must be a hex color such as #ff8800";
+    case "enum":
+      return typeof value === "string" && spec.options.includes(value)
+        ? null
+        : `must be one of: ${spec.options.join(", ")}`;
+    case "string":
+      if (typeof value !== "string") return "must be a string";
+      return value.length > spec.maxLength
+        ? `must be at most ${spec.maxLength} characters`
+        : null;
+    case "numberArray":
+      if (
+        !Array.isArray(value) ||
+        !value.every((n) => typeof n === "number" && Number.isFinite(n))
+      ) {
+        return "must be an array of numbers";
+      }
+      if (value.length < spec.minLength || value.length > spec.maxLength) {
+        return spec.minLength === spec.maxLength
+          ? `must contain exactly ${spec.minLength} numbers`
+          : `must contain between ${spec.minLength} and ${spec.maxLength} numbers`;
+      }
+      return null;
+  }
+}
+
+export interface ValidationResult {
+  operations: ImageOperation[];
+  errors: Record<string, string>;
+}
+
+// Checks a request's operation list against operationSchemas. Missing
+// parameters are filled from their defaults; every problem is reported
+// under its own field path, e.g. "operations[1].sigma".
+export function validateOperations(input: unknown): ValidationResult {
+  const errors: Record<string, string> = {};
+  const operations: ImageOperation[] = [];
+
+  if (!Array.isArray(input) || input.length === 0) {
+    errors["operations"] = "must be a non-empty array of operations";
+    return { operations, errors };
+  }
+
+  input.forEach((raw, index) => {
+    const path = `operations[${index}]`;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      errors[path] = "must be an object";
+      return;
+    }
+
+    const { type, ...params } = raw as Record<string, unknown>;
+    // Own keys only, so "toString" or "__proto__" isn't taken for a type.
+    const schema =
+      typeof type === "string" && Object.hasOwn(operationSchemas, type)
+        ? operationSchemas[type as OperationType]
+        : undefined;
+    if (!schema) {
+      errors[`${path}.type`] = `unknown operation type "${String(type)}"`;
+      return;
+    }
+
+    const normalized: Record<string, unknown> = { type };
+    for (const [name, spec] of Object.entries(schema.params)) {
+      const value = params[name] === undefined ? spec.default : params[name];
+      const error = validateParam(spec, value);
+      if (error) {
+        errors[`${path}.${name}`] = error;
+      }
+      if (value !== undefined) {
+        normalized[name] = value;
+      }
+    }
+    for (const name of Object.keys(params)) {
+      if (!Object.hasOwn(schema.params, name)) {
+        errors[`${path}.${name}`] = "is not a parameter of this operation";
+      }
+    }
+
+    if (
+      type === "convolve" &&
+      !errors[`${path}.kernel`] &&
+      (normalized.kernel as number[]).length !==
+        (normalized.width as number) * (normalized.height as number)
+    ) {
+      errors[`${path}.kernel`] = "must contain width * height numbers";
+    }
+    if (
+      type === "resize" &&
+      normalized.width === undefined &&
+      normalized.height === undefined
+    ) {
+      errors[`${path}.width`] = "width or height is required";
+    }
+    if (
+      type === "composite" &&
+      normalized.mode === "text" &&
+      !String(normalized.text ?? "").trim()
+    ) {
+      errors[`${path}.text`] = "is required for a text watermark";
+    }
+
+    operations.push(normalized as unknown as ImageOperation);
+  });
+
+  return { operations, errors };
+}
+
+// Scales the alpha channel of an overlay so it can be composited at a
+// reduced opacity; sharp's composite has no opacity option of its own.
+async function withOpacity(overlay: Buffer, opacity: number): Promise<Buffer> {
+  if (opacity >= 1) return overlay;
+  return sharp(overlay)
+    .ensureAlpha()
+    .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+    .png()
+    .toBuffer();
+}
+
+// Renders the pending pipeline to raw pixels. sharp runs its own operations
+// in a fixed order, and calling e.g. resize twice keeps only the last call,
+// so each step starts from a fresh instance to honour the requested order.
+async function materialize(image: sharp.Sharp): Promise<sharp.Sharp> {
+  const { data, info } = await image
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+}
+
+// The file extension the pipeline's output should be saved with, if it
+// converts to a different format; the last "format" step wins.
+export function outputExtension(operations: ImageOperation[]): string | undefined {
+  const formatOps = operations.filter((op) => op.type === "format");
+  const last = formatOps[formatOps.length - 1];
+  if (!last || last.type !== "format") return undefined;
+  return last.format === "jpeg" ? "jpg" : last.format;
+}
+
+// `onStep` is awaited before each operation runs, with that operation's
+// index, so callers can report progress. Generated patterns must finish by
+// `deadline`, a timestamp; without one each gets the default time budget.
+export async function applyOperations(
+  image: sharp.Sharp,
+  operations: ImageOperation[],
+  onStep?: (index: number) => Promise<void>,
+  deadline?: number
+): Promise<sharp.Sharp> {
+  let output: { format: OutputFormat; quality: number } | undefined;
+
+  for (const [index, op] of operations.entries()) {
+    if (onStep) {
+      await onStep(index);
+    }
+    if (index > 0 && op.type !== "format") {
+      image = await materialize(image);
+    }
+
+    switch (op.type) {
+
+      case "resize":
+        image = image.resize({
+          width: op.width,
+          height: op.height,
+          fit: op.fit,
+          withoutEnlargement: op.withoutEnlargement,
+        });
+        break;
+      case "extract":
+        image = image.extract({
+          left: op.left,
+          top: op.top,
+          width: op.width,
+          height: op.height,
+        });
+        break;
+      case "rotate":
+        image = image.rotate(op.angle, { background: op.background });
+        break;
+      case "flip":
+        image = image.flip();
+        break;
+      case "flop":
+        image = image.flop();
+        break;
+      case "blur":
+        image = image.blur(op.sigma);
+        break;
+      case "modulate":
+        image = image.modulate({
+          brightness: op.brightness,
+          saturation: op.saturation,
+          hue: op.hue,
+          lightness: op.lightness,
+        });
+        break;
+      case "gamma":
+        image = image.gamma(op.gamma, op.gammaOut);
+        break;
+      case "trim":
+        image = image.trim({ threshold: op.threshold });
+        break;
+      case "format":
+        output = { format: op.format, quality: op.quality };
+        break;
+
+      case "sharpen":
+        image = image.sharpen({ sigma: op.sigma, m1: op.m1, m2: op.m2 });
+        break;
+
+      case "composite": {
+        const { width, height } = await image.metadata();
+        const watermark = await renderWatermark(op, width!, height!);
+        image = image.composite([
+          {
+            input: await withOpacity(watermark.input, op.opacity),
+            gravity: watermark.gravity,
+            tile: watermark.tile,
+            blend: op.blend,
+          },
+        ]);
+        break;
+      }
+
+      case "tint":
+        image = image.tint(op.color);
+        break;
+      case "negate":
+        image = image.negate({ alpha: op.alpha });
+        break;
+      case "convolve":
+        image = image.convolve({
+          width: op.width,
+          height: op.height,
+          kernel: op.kernel,
+          scale: op.scale,
+          offset: op.offset,
+        });
+        break;
+      case "median":
+        image = image.median(op.size);
+        break;
+      case "recomb":
+        image = image.recomb([
+          [op.matrix[0], op.matrix[1], op.matrix[2]],
+          [op.matrix[3], op.matrix[4], op.matrix[5]],
+          [op.matrix[6], op.matrix[7], op.matrix[8]],
+        ]);
+        break;
+
+      case "fractal_noise":
+      case "plasma":
+      case "holographic":
+      case "aurora": {
+        const { width, height } = await image.metadata();
+        const pattern = await renderPattern(op, width!, height!, deadline);
+        image = image.composite([
+          { input: await withOpacity(pattern, op.opacity), blend: op.blend },
+        ]);
+        break;
+      }
+
+      case "chromatic_aberration":
+      case "vortex":
+      case "lens":
+      case "ripple":
+      case "pinch":
+        image = await displace(image, op, deadline);
+        break;
+
+      case "oil_painting": {
+        // Oil painting effect using multiple convolutions
+        const oilKernel1 = [
+          1, 1, 1, 1, 1,
+          1, 2, 2, 2, 1,
+          1, 2, 4, 2, 1,
+          1, 2, 2, 2, 1,
+          1, 1, 1, 1, 1
+        ];
+
+        image = image
+          .convolve({ width: 5, height: 5, kernel: oilKernel1, scale: 36 })
+          .median(op.size)
+          .sharpen({ sigma: 2, m1: 2, m2: 3 })
+          .modulate({ saturation: op.saturation, lightness: 1.1 });
+        break;
+      }
+
+      case "edge_enhance_extreme": {
+        // Extreme edge enhancement with multiple passes
+        const edgeKernel1 = [-1, -1, -1, -1, -1, -1, -1,
+        -1, -2, -2, -2, -2, -2, -1,
+        -1, -2, -3, -3, -3, -2, -1,
+        -1, -2, -3, 24, -3, -2, -1,
+        -1, -2, -3, -3, -3, -2, -1,
+        -1, -2, -2, -2, -2, -2, -1,
+        -1, -1, -1, -1, -1, -1, -1];
+
+        const edgeKernel2 = [-1, -1, -1,
+        -1, 8, -1,
+        -1, -1, -1];
+
+        image = image
+          .convolve({ width: 7, height: 7, kernel: edgeKernel1 })
+          .normalize()
+          .convolve({ width: 3, height: 3, kernel: edgeKernel2 })
+          .linear(op.strength, 10)
+          .gamma(1.2)
+          .sharpen({ sigma: 3, m1: 2, m2: 3 });
+        break;
+      }
+
+    }
+  }
+
+  if (output) {
+    // For png, sharp takes a quality as a request for palette quantization,
+    // which would make every png output lossy.
+    image = image.toFormat(
+      output.format,
+      output.format === "png" ? {} : { quality: output.quality }
+    );
+  }
+
+  return image;
+}
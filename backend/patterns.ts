@@ -0,0 +1,46 @@
+import sharp from "sharp";
+import { ImageOperation, validateOperations } from "./operations";
+import { PatternBand, PatternSettings } from "./procedural";
+import { RENDER_TIME_BUDGET_MS, pixelPool, rowBands } from "./workerPool";
+
+export type ProceduralOperation = Extract<
+  ImageOperation,
+  { type: "fractal_noise" | "plasma" | "holographic" | "aurora" }
+>;
+
+// Steps saved before patterns were seeded lack seed, octaves, palette (and
+// for some effects scale); those use the schema's defaults.
+export function patternSettings(op: ProceduralOperation): PatternSettings {
+  const defaults = validateOperations([{ type: op.type }]).operations[0] as ProceduralOperation;
+  return {
+    type: op.type,
+    seed: op.seed ?? defaults.seed!,
+    scale: op.scale ?? defaults.scale!,
+    octaves: op.octaves ?? defaults.octaves!,
+    palette: op.palette ?? defaults.palette!,
+    color: op.type === "fractal_noise" ? op.color : undefined,
+    frequency: op.type === "holographic" ? op.frequency : undefined,
+  };
+}
+
+// Renders the pattern for `op` over a `width` × `height` image as a PNG.
+// The rows are split into bands rendered in parallel on the pool's threads,
+// keeping the event loop free; throws RenderTimeoutError if they aren't all
+// done by `deadline`.
+export async function renderPattern(
+  op: ProceduralOperation,
+  width: number,
+  height: number,
+  deadline: number = Date.now() + RENDER_TIME_BUDGET_MS
+): Promise<Buffer> {
+  const settings = patternSettings(op);
+  const data = Buffer.alloc(width * height * 4);
+  await Promise.all(
+    rowBands(height).map(async ({ startRow, endRow }) => {
+      const band: PatternBand = { settings, width, height, startRow, endRow };
+      const pixels = await pixelPool.run({ kind: "pattern", ...band }, deadline);
+      data.set(pixels, startRow * width * 4);
+    })
+  );
+  return sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
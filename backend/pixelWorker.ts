@@ -0,0 +1,14 @@
+import { parentPort } from "worker_threads";
+import { PatternBand, renderRows } from "./procedural";
+import { DisplacementBand, displaceRows } from "./displacementMaps";
+
+export type PixelTask =
+  | ({ kind: "pattern" } & PatternBand)
+  | ({ kind: "displacement" } & DisplacementBand);
+
+// Renders one band of a pattern or displacement per message for the pixel
+// pool, answering with the band's RGBA rows.
+parentPort!.on("message", (task: PixelTask) => {
+  const pixels = task.kind === "pattern" ? renderRows(task) : displaceRows(task);
+  parentPort!.postMessage(pixels, [pixels.buffer as ArrayBuffer]);
+});
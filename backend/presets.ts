@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import { redisClient } from "./redis";
+import { ImageOperation, validateOperations } from "./operations";
+import { storage } from "./storage";
+import { renderDownscaled } from "./previews";
+
+// Presets shared by their owners, scored by when they were shared.
+const SHARED_PRESETS = "presets:shared";
+const THUMBNAIL_SIZE = 256;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface Preset {
+  id: string;
+  owner: string;
+  name: string;
+  description: string;
+  operations: ImageOperation[];
+  shared: boolean;
+  // Storage key of a small render of the preset, if one was made.
+  thumbnail?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+const presetKey = (presetId: string) => `preset:${presetId}`;
+export const userPresetsKey = (user: string) => `user:${user}:presets`;
+
+function parsePreset(hash: Record<string, string>): Preset | null {
+  if (!hash || Object.keys(hash).length === 0) return null;
+  return {
+    id: hash.id,
+    owner: hash.owner,
+    name: hash.name,
+    description: hash.description || "",
+    operations: JSON.parse(hash.operations || "[]"),
+    shared: hash.shared === "true",
+    thumbnail: hash.thumbnail || undefined,
+    created_at: parseInt(hash.created_at),
+    updated_at: parseInt(hash.updated_at),
+  };
+}
+
+export async function getPreset(presetId: string): Promise<Preset | null> {
+  return parsePreset(await redisClient.hGetAll(presetKey(presetId)));
+}
+
+// The preset if `user` may use it: their own, or one shared with everyone.
+export async function getUsablePreset(
+  presetId: string,
+  user: string
+): Promise<Preset | null> {
+  const preset = await getPreset(presetId);
+  return preset && (preset.owner === user || preset.shared) ? preset : null;
+}
+
+async function getPresets(presetIds: string[]): Promise<Preset[]> {
+  const presets = await Promise.all(presetIds.map(getPreset));
+  return presets.filter((preset): preset is Preset => preset !== null);
+}
+
+// The user's own presets and those other users have shared, newest first.
+export async function listPresets(
+  user: string
+): Promise<{ own: Preset[]; shared: Preset[] }> {
+  const [ownIds, sharedIds] = await Promise.all([
+    redisClient.zRange(userPresetsKey(user), 0, -1, { REV: true }),
+    redisClient.zRange(SHARED_PRESETS, 0, -1, { REV: true }),
+  ]);
+  const shared = await getPresets(sharedIds);
+  return {
+    own: await getPresets(ownIds),
+    shared: shared.filter((preset) => preset.owner !== user),
+  };
+}
+
+export interface PresetFields {
+  name: string;
+  description: string;
+  operations: ImageOperation[];
+  shared: boolean;
+}
+
+// Field errors use the same keys as validateOperations, e.g.
+// "operations[1].sigma", alongside "name", "description" and "shared".
+export function validatePresetFields(input: Record<string, unknown>): {
+  fields: PresetFields;
+  errors: Record<string, string>;
+} {
+  const { operations, errors } = validateOperations(input.operations);
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  const description = input.description === undefined ? "" : input.description;
+
+  if (!name) errors.name = "is required";
+  else if (name.length > MAX_NAME_LENGTH) {
+    errors.name = `must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (typeof description !== "string") errors.description = "must be a string";
+  else if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (input.shared !== undefined && typeof input.shared !== "boolean") {
+    errors.shared = "must be a boolean";
+  }
+
+  return {
+    fields: {
+      name,
+      description: typeof description === "string" ? description.trim() : "",
+      operations,
+      shared: input.shared === true,
+    },
+    errors,
+  };
+}
+
+function presetHash(fields: PresetFields) {
+  return {
+    name: fields.name,
+    description: fields.description,
+    operations: JSON.stringify(fields.operations),
+    shared: String(fields.shared),
+  };
+}
+
+export async function createPreset(owner: string, fields: PresetFields): Promise<Preset> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const transaction = redisClient
+    .multi()
+    .hSet(presetKey(id), {
+      id,
+      owner,
+      ...presetHash(fields),
+      created_at: now,
+      updated_at: now,
+    })
+    .zAdd(userPresetsKey(owner), { score: now, value: id });
+  if (fields.shared) {
+    transaction.zAdd(SHARED_PRESETS, { score: now, value: id });
+  }
+  await transaction.exec();
+  return (await getPreset(id))!;
+}
+
+export async function updatePreset(preset: Preset, fields: PresetFields): Promise<Preset> {
+  const now = Date.now();
+  const transaction = redisClient
+    .multi()
+    .hSet(presetKey(preset.id), { ...presetHash(fields), updated_at: now });
+  if (fields.shared && !preset.shared) {
+    transaction.zAdd(SHARED_PRESETS, { score: now, value: preset.id });
+  } else if (!fields.shared) {
+    transaction.zRem(SHARED_PRESETS, preset.id);
+  }
+  await transaction.exec();
+  return (await getPreset(preset.id))!;
+}
+
+export async function deletePreset(preset: Preset): Promise<void> {
+  await redisClient
+    .multi()
+    .del(presetKey(preset.id))
+    .zRem(userPresetsKey(preset.owner), preset.id)
+    .zRem(SHARED_PRESETS, preset.id)
+    .exec();
+  if (preset.thumbnail) {
+    await storage.delete(preset.thumbnail);
+  }
+}
+
+// Renders the preset on a downscaled copy of `source` and stores it as the
+// preset's thumbnail. The error from a step that can't run is passed on for
+// the caller to report.
+export async function renderPresetThumbnail(preset: Preset, source: string): Promise<Preset> {
+  const data = await renderDownscaled(source, preset.operations, THUMBNAIL_SIZE);
+  const thumbnail = `preset-${preset.id}.webp`;
+  await storage.put(thumbnail, data, "image/webp");
+  await redisClient.hSet(presetKey(preset.id), "thumbnail", thumbnail);
+  return { ...preset, thumbnail };
+}
@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { redisClient } from "./redis";
+import { ImageOperation, applyOperations } from "./operations";
+import { readToBuffer, storage } from "./storage";
+import { MAX_INPUT_PIXELS } from "./validation";
+
+export const PREVIEW_DEFAULT_SIZE = 800;
+export const PREVIEW_MAX_SIZE = 1024;
+const PREVIEW_TTL_SECONDS = 60 * 60;
+
+// Rendered previews, as base64 WebP, keyed by a hash of what produced them.
+// Stored files never change once written, so entries only need to expire.
+const previewKey = (hash: string) => `preview:${hash}`;
+
+// Spreads each cell of a `width` × `height` kernel over the cells of a
+// smaller one in proportion to how much of it they cover, so the weights
+// still add up to the same total and the image keeps its brightness.
+function shrinkKernel(
+  kernel: number[],
+  width: number,
+  height: number,
+  newWidth: number,
+  newHeight: number
+): number[] {
+  // How much of input cell `i` falls in output cell `j` along one axis.
+  const overlap = (i: number, j: number, size: number, newSize: number) => {
+    const step = size / newSize;
+    return Math.max(0, Math.min(i + 1, (j + 1) * step) - Math.max(i, j * step));
+  };
+  const shrunk = new Array<number>(newWidth * newHeight).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let j = 0; j < newHeight; j++) {
+        const rowShare = overlap(y, j, height, newHeight);
+        if (rowShare === 0) continue;
+        for (let i = 0; i < newWidth; i++) {
+          shrunk[j * newWidth + i] += kernel[y * width + x] * rowShare * overlap(x, i, width, newWidth);
+        }
+      }
+    }
+  }
+  return shrunk;
+}
+
+// Pixel sizes, offsets and radii are given for the full-size image; on a
+// downscaled copy they are scaled by the same factor so the result keeps
+// its proportions and effects look as strong as they will on the output.
+// Kernels can't go below sharp's 3×3 minimum.
+function scaleOperations(operations: ImageOperation[], factor: number): ImageOperation[] {
+  const scale = (value: number) => Math.max(1, Math.round(value * factor));
+  // sharp refuses a blur sigma under 0.3.
+  const scaleSigma = (sigma: number) => Math.max(0.3, sigma * factor);
+  const kernelSize = (size: number) =>
+    Math.min(size, Math.max(3, 2 * Math.round((size * factor - 1) / 2) + 1));
+  return operations.map((op) => {
+    switch (op.type) {
+      case "resize":
+        return {
+          ...op,
+          width: op.width === undefined ? undefined : scale(op.width),
+          height: op.height === undefined ? undefined : scale(op.height),
+        };
+      case "extract":
+        return {
+          ...op,
+          left: Math.round(op.left * factor),
+          top: Math.round(op.top * factor),
+          width: scale(op.width),
+          height: scale(op.height),
+        };
+      case "blur":
+      case "sharpen":
+        return { ...op, sigma: scaleSigma(op.sigma) };
+      case "median":
+      case "oil_painting":
+        return { ...op, size: scale(op.size) };
+      case "convolve": {
+        const width = kernelSize(op.width);
+        const height = kernelSize(op.height);
+        if (width === op.width && height === op.height) return op;
+        return {
+          ...op,
+          width,
+          height,
+          kernel: shrinkKernel(op.kernel, op.width, op.height, width, height),
+        };
+      }
+      default:
+        return op;
+    }
+  });
+}
+
+// Renders the operations on a copy of the stored file `source` downscaled to
+// fit `size`, as WebP. Like the worker it rotates the source upright by its
+// EXIF orientation first, so what is shown is what a job would produce.
+export async function renderDownscaled(
+  source: string,
+  operations: ImageOperation[],
+  size: number
+): Promise<Buffer> {
+  const original = await readToBuffer(await storage.getStream(source));
+  const { data: downscaled, info } = await sharp(original, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize(size, size, { fit: "inside", withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const { autoOrient } = await sharp(original, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  const originalWidth = autoOrient?.width ?? info.width;
+
+  const rendered = await (
+    await applyOperations(
+      sharp(downscaled),
+      scaleOperations(operations, info.width / originalWidth)
+    )
+  )
+    .png()
+    .toBuffer();
+  return sharp(rendered)
+    .resize(size, size, { fit: "inside", withoutEnlargement: true })
+    .webp()
+    .toBuffer();
+}
+
+// A cached render of `operations` on `source` at `size`, for trying effects
+// without creating a version.
+export async function renderPreview(
+  source: string,
+  operations: ImageOperation[],
+  size: number
+): Promise<{ data: Buffer; cached: boolean }> {
+  const hash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ source, operations, size }))
+    .digest("hex");
+  const cached = await redisClient.get(previewKey(hash));
+  if (cached) return { data: Buffer.from(cached, "base64"), cached: true };
+
+  const data = await renderDownscaled(source, operations, size);
+  await redisClient.set(previewKey(hash), data.toString("base64"), {
+    EX: PREVIEW_TTL_SECONDS,
+  });
+  return { data, cached: false };
+}
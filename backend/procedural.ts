@@ -0,0 +1,227 @@
+export type Palette =
+  | "color"
+  | "grayscale"
+  | "rainbow"
+  | "fire"
+  | "ocean"
+  | "sunset"
+  | "aurora";
+
+// Gradient stops, evenly spaced from 0 to 1. "color" is built from the
+// operation's own color instead.
+const PALETTE_STOPS: Record<Exclude<Palette, "color">, string[]> = {
+  grayscale: ["#000000", "#ffffff"],
+  rainbow: ["#ff0000", "#ffff00", "#00ff00", "#00ffff", "#0000ff", "#ff00ff", "#ff0000"],
+  fire: ["#000000", "#7a0000", "#ff4500", "#ffb000", "#ffffe0"],
+  ocean: ["#001a33", "#004e7c", "#0096c7", "#48cae4", "#caf0f8"],
+  sunset: ["#2d1b4e", "#7b2d8e", "#e0457b", "#ff8c42", "#ffd166"],
+  aurora: ["#0b3d2e", "#1fd68b", "#3ad6c6", "#6a5acd", "#c77dff"],
+};
+
+export const PALETTES = Object.keys(PALETTE_STOPS) as Palette[];
+
+// Patterns are laid out on a grid this many units across the image's longer
+// side, so a pattern looks the same at any resolution and a downscaled
+// preview matches the full-size render.
+const REFERENCE_SIZE = 1000;
+
+// mulberry32: a small, fast PRNG that is fully determined by its seed.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const GRADIENTS = [
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+];
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+// 2D simplex noise (after Stefan Gustavson's reference implementation) with
+// the permutation table shuffled by `seed`. Values are roughly in [-1, 1].
+function simplexNoise(seed: number): (x: number, y: number) => number {
+  const random = seededRandom(seed);
+  const p = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+
+  const corner = (gi: number, x: number, y: number) => {
+    const t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    const [gx, gy] = GRADIENTS[gi % 12];
+    return t * t * t * t * (gx * x + gy * y);
+  };
+
+  return (x, y) => {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+    const ii = i & 255;
+    const jj = j & 255;
+    return (
+      70 *
+      (corner(perm[ii + perm[jj]], x0, y0) +
+        corner(perm[ii + i1 + perm[jj + j1]], x0 - i1 + G2, y0 - j1 + G2) +
+        corner(perm[ii + 1 + perm[jj + 1]], x0 - 1 + 2 * G2, y0 - 1 + 2 * G2))
+    );
+  };
+}
+
+// Fractal Brownian motion: `octaves` layers of noise, each at twice the
+// frequency and half the strength of the last, normalized back to [-1, 1].
+function fractalNoise(seed: number, octaves: number): (x: number, y: number) => number {
+  const noise = simplexNoise(seed);
+  return (x, y) => {
+    let sum = 0;
+    let amplitude = 1;
+    let total = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+      sum += amplitude * noise(x, y);
+      total += amplitude;
+      x *= 2;
+      y *= 2;
+      amplitude /= 2;
+    }
+    return sum / total;
+  };
+}
+
+function hexToRgb(hex: string): number[] {
+  let digits = hex.slice(1);
+  if (digits.length === 3) {
+    digits = digits
+      .split("")
+      .map((d) => d + d)
+      .join("");
+  }
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// The palette as a 256-entry RGB lookup table.
+function paletteTable(palette: Palette, color: string | undefined): Uint8Array {
+  const stops = (
+    palette === "color" ? ["#000000", color ?? "#ffffff"] : PALETTE_STOPS[palette]
+  ).map(hexToRgb);
+  const table = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    const mix = position - index;
+    for (let c = 0; c < 3; c++) {
+      table[i * 3 + c] = Math.round(stops[index][c] * (1 - mix) + stops[index + 1][c] * mix);
+    }
+  }
+  return table;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Everything a pattern depends on, resolved from the operation.
+export interface PatternSettings {
+  type: "fractal_noise" | "plasma" | "holographic" | "aurora";
+  seed: number;
+  scale: number;
+  octaves: number;
+  palette: Palette;
+  // Only used by fractal_noise's "color" palette.
+  color?: string;
+  // Only used by holographic.
+  frequency?: number;
+}
+
+// Rows `startRow` up to `endRow` of the pattern over a `width` × `height`
+// image.
+export interface PatternBand {
+  settings: PatternSettings;
+  width: number;
+  height: number;
+  startRow: number;
+  endRow: number;
+}
+
+// The band's pixels as RGBA, with transparency where the pattern doesn't
+// cover the image. The result depends only on the settings and the image's
+// proportions, so bands can be rendered separately and joined. This runs in
+// the pixel worker threads, which is why the module imports nothing.
+export function renderRows({ settings, width, height, startRow, endRow }: PatternBand): Uint8Array {
+  const { seed, scale, octaves, palette } = settings;
+  const noise = fractalNoise(seed, octaves);
+  const table = paletteTable(palette, settings.color);
+  const unit = REFERENCE_SIZE / Math.max(width, height);
+  const data = new Uint8Array(width * (endRow - startRow) * 4);
+
+  // Each pattern maps grid coordinates to a palette position and a coverage.
+  let sample: (u: number, v: number) => [number, number];
+  switch (settings.type) {
+    case "fractal_noise": {
+      const frequency = 0.01 * scale;
+      sample = (u, v) => [clamp01(0.5 + 0.7 * noise(u * frequency, v * frequency)), 1];
+      break;
+    }
+    case "plasma": {
+      // Domain-warped noise folded through a sine gives plasma's bands.
+      const frequency = 0.003 * scale;
+      sample = (u, v) => {
+        const warp = noise(u * frequency, v * frequency);
+        const value = noise(u * frequency + warp, v * frequency - warp + 3.7);
+        return [0.5 + 0.5 * Math.sin(2 * Math.PI * value), 1];
+      };
+      break;
+    }
+    case "holographic": {
+      // Diagonal interference bands, bent by the noise.
+      const frequency = 0.004 * scale;
+      const bands = settings.frequency ?? 0.1;
+      sample = (u, v) => {
+        const phase = (u + v) * bands + 4 * noise(u * frequency, v * frequency);
+        return [0.5 + 0.5 * Math.sin(phase), 1];
+      };
+      break;
+    }
+    case "aurora": {
+      // A ribbon that wanders across the upper part of the image, with a
+      // sharp lower edge, a glow fading upwards and vertical rays.
+      const frequency = 0.003 * scale;
+      const gridHeight = height * unit;
+      sample = (u, v) => {
+        const center = gridHeight * (0.35 + 0.2 * noise(u * frequency, 0.5));
+        const distance = (v - center) / (gridHeight * 0.12);
+        const band = distance > 0 ? Math.exp(-9 * distance * distance) : Math.exp(-0.4 * distance * distance);
+        const rays = 0.5 + 0.5 * noise(u * frequency * 12, v * frequency * 0.8);
+        return [clamp01((center - v) / (gridHeight * 0.4)), band * (0.35 + 0.65 * rays)];
+      };
+      break;
+    }
+  }
+
+  for (let y = startRow; y < endRow; y++) {
+    for (let x = 0; x < width; x++) {
+      const [position, coverage] = sample(x * unit, y * unit);
+      const entry = Math.round(position * 255) * 3;
+      const idx = ((y - startRow) * width + x) * 4;
+      data[idx] = table[entry];
+      data[idx + 1] = table[entry + 1];
+      data[idx + 2] = table[entry + 2];
+      data[idx + 3] = Math.round(clamp01(coverage) * 255);
+    }
+  }
+  return data;
+}
@@ -0,0 +1,172 @@
+import { redisClient } from "./redis";
+import { countImages } from "./images";
+import { parseVersions } from "./versions";
+
+export const PLANS = ["free", "pro"] as const;
+export type Plan = (typeof PLANS)[number];
+
+export interface PlanLimits {
+  storageBytes: number;
+  images: number;
+  // Time spent running the user's jobs per UTC day.
+  cpuSecondsPerDay: number;
+}
+
+const limit = (name: string, fallback: number) =>
+  parseInt(process.env[name] || String(fallback));
+
+// Each limit can be set per tier, e.g. QUOTA_FREE_STORAGE_BYTES or
+// QUOTA_PRO_CPU_SECONDS.
+export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  free: {
+    storageBytes: limit("QUOTA_FREE_STORAGE_BYTES", 500 * 1024 * 1024),
+    images: limit("QUOTA_FREE_IMAGES", 200),
+    cpuSecondsPerDay: limit("QUOTA_FREE_CPU_SECONDS", 600),
+  },
+  pro: {
+    storageBytes: limit("QUOTA_PRO_STORAGE_BYTES", 20 * 1024 * 1024 * 1024),
+    images: limit("QUOTA_PRO_IMAGES", 10000),
+    cpuSecondsPerDay: limit("QUOTA_PRO_CPU_SECONDS", 6 * 60 * 60),
+  },
+};
+
+// The plan of accounts that were never given one.
+export const DEFAULT_PLAN: Plan = PLANS.includes(process.env.DEFAULT_PLAN as Plan)
+  ? (process.env.DEFAULT_PLAN as Plan)
+  : "free";
+
+const planKey = (user: string) => `user:${user}:plan`;
+// Running totals that are too costly to recompute per request.
+const usageKey = (user: string) => `user:${user}:usage`;
+const processingKey = (user: string, day: string) => `user:${user}:processing_ms:${day}`;
+
+// Sent with 413 when storage or the image count is used up, and with 429
+// (and when to retry) when the day's processing time is.
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly status: 413 | 429,
+    message: string,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export async function getUserPlan(user: string): Promise<Plan> {
+  const plan = await redisClient.get(planKey(user));
+  return PLANS.includes(plan as Plan) ? (plan as Plan) : DEFAULT_PLAN;
+}
+
+export async function setUserPlan(user: string, plan: Plan): Promise<void> {
+  await redisClient.set(planKey(user), plan);
+}
+
+// Bytes of originals and versions the user has stored; negative when files
+// are deleted.
+export async function addStoredBytes(user: string, delta: number): Promise<void> {
+  if (delta !== 0) await redisClient.hIncrBy(usageKey(user), "bytes_stored", delta);
+}
+
+// "2026-10-19"; processing time is counted per UTC day.
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+function secondsUntilNextDay(time: number): number {
+  const next = new Date(time);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((next.getTime() - time) / 1000);
+}
+
+// The user's plan, running totals and processing time for every day whose
+// counter may not have expired yet.
+export function userQuotaKeys(user: string): string[] {
+  const now = Date.now();
+  const days = [0, 1, 2].map((daysAgo) => utcDay(now - daysAgo * 24 * 60 * 60 * 1000));
+  return [planKey(user), usageKey(user), ...days.map((day) => processingKey(user, day))];
+}
+
+export async function addProcessingTime(user: string, ms: number): Promise<void> {
+  const key = processingKey(user, utcDay(Date.now()));
+  await redisClient
+    .multi()
+    .incrBy(key, Math.round(ms))
+    .expire(key, 2 * 24 * 60 * 60)
+    .exec();
+}
+
+export interface Usage {
+  plan: Plan;
+  limits: PlanLimits;
+  storageBytes: number;
+  images: number;
+  cpuSecondsToday: number;
+  // When today's processing time starts again from zero.
+  processingResetsAt: string;
+}
+
+export async function getUsage(user: string): Promise<Usage> {
+  const now = Date.now();
+  const [plan, storedBytes, images, processingMs] = await Promise.all([
+    getUserPlan(user),
+    redisClient.hGet(usageKey(user), "bytes_stored"),
+    countImages(user),
+    redisClient.get(processingKey(user, utcDay(now))),
+  ]);
+  return {
+    plan,
+    limits: PLAN_LIMITS[plan],
+    storageBytes: Math.max(0, parseInt(storedBytes || "0")),
+    images,
+    cpuSecondsToday: Math.round(parseInt(processingMs || "0") / 100) / 10,
+    processingResetsAt: new Date(now + secondsUntilNextDay(now) * 1000).toISOString(),
+  };
+}
+
+// What the user's plan still allows to be uploaded.
+export async function remainingUploads(user: string): Promise<{ images: number; bytes: number }> {
+  const usage = await getUsage(user);
+  return {
+    images: Math.max(0, usage.limits.images - usage.images),
+    bytes: Math.max(0, usage.limits.storageBytes - usage.storageBytes),
+  };
+}
+
+// Throws unless the user has time left today to run jobs and room to store
+// what they produce.
+export async function checkProcessingQuota(user: string): Promise<void> {
+  const usage = await getUsage(user);
+  if (usage.cpuSecondsToday >= usage.limits.cpuSecondsPerDay) {
+    throw new QuotaExceededError(
+      429,
+      `Your ${usage.plan} plan's ${usage.limits.cpuSecondsPerDay} seconds of processing for today are used up. ` +
+        `Processing is available again at ${usage.processingResetsAt}.`,
+      secondsUntilNextDay(Date.now())
+    );
+  }
+  if (usage.storageBytes >= usage.limits.storageBytes) {
+    throw new QuotaExceededError(
+      413,
+      `Your ${usage.plan} plan's storage of ${usage.limits.storageBytes} bytes is full. ` +
+        "Delete images or versions to make room for new ones."
+    );
+  }
+}
+
+// Totals stored bytes for users whose usage was never recorded, from the
+// sizes on their images and versions.
+export async function backfillStorageUsage(): Promise<void> {
+  const totals = new Map<string, number>();
+  for await (const keys of redisClient.scanIterator({ MATCH: "image:*", COUNT: 100 })) {
+    for (const imageId of keys) {
+      const metadata = await redisClient.hGetAll(imageId);
+      if (!metadata.user) continue;
+      const bytes =
+        parseInt(metadata.size || "0") +
+        parseVersions(metadata).reduce((total, version) => total + (version.size || 0), 0);
+      totals.set(metadata.user, (totals.get(metadata.user) || 0) + bytes);
+    }
+  }
+  for (const [user, bytes] of totals) {
+    await redisClient.hSetNX(usageKey(user), "bytes_stored", String(bytes));
+  }
+}
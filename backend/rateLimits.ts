@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { redisClient } from "./redis";
+
+const setting = (name: string, fallback: number) =>
+  parseInt(process.env[name] || String(fallback));
+
+export interface RateLimitPolicy {
+  name: string;
+  windowSeconds: number;
+  // Requests allowed per window from one IP address, and for one signed-in
+  // user across all their addresses. Per-user limits need the route to
+  // authenticate first.
+  perIp: number;
+  perUser?: number;
+}
+
+// Each number can be overridden, e.g. RATE_LIMIT_AUTH_PER_IP or
+// RATE_LIMIT_PROCESS_WINDOW_SECONDS.
+function policy(name: string, defaults: Omit<RateLimitPolicy, "name">): RateLimitPolicy {
+  const prefix = `RATE_LIMIT_${name.toUpperCase()}`;
+  return {
+    name,
+    windowSeconds: setting(`${prefix}_WINDOW_SECONDS`, defaults.windowSeconds),
+    perIp: setting(`${prefix}_PER_IP`, defaults.perIp),
+    perUser:
+      defaults.perUser === undefined ? undefined : setting(`${prefix}_PER_USER`, defaults.perUser),
+  };
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // Login and registration, where nobody is signed in yet.
+  auth: policy("auth", { windowSeconds: 15 * 60, perIp: 30 }),
+  upload: policy("upload", { windowSeconds: 60, perIp: 60, perUser: 20 }),
+  process: policy("process", { windowSeconds: 60, perIp: 120, perUser: 60 }),
+};
+
+// A failed login for a username past this many in the window locks the
+// username for LOGIN_LOCKOUT_SECONDS, whichever address the attempts came from.
+const LOGIN_MAX_FAILURES = setting("LOGIN_MAX_FAILURES", 5);
+const LOGIN_FAILURE_WINDOW_SECONDS = setting("LOGIN_FAILURE_WINDOW_SECONDS", 15 * 60);
+const LOGIN_LOCKOUT_SECONDS = setting("LOGIN_LOCKOUT_SECONDS", 15 * 60);
+
+const windowKey = (policyName: string, scope: "ip" | "user", id: string) =>
+  `ratelimit:${policyName}:${scope}:${id}`;
+const loginFailuresKey = (username: string) => `login_failures:${username}`;
+const loginLockoutKey = (username: string) => `login_lockout:${username}`;
+
+// Sliding window log: the set holds one member per request, scored by its
+// time in ms. Entries older than the window are dropped, and the request is
+// only recorded if there is room. Returns [allowed, count, ms until the
+// oldest entry leaves the window].
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = oldest[2] and (tonumber(oldest[2]) + window - now) or window
+return {allowed, count, reset}
+`;
+
+interface WindowResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+async function hitWindow(key: string, limit: number, windowSeconds: number): Promise<WindowResult> {
+  const [allowed, count, resetMs] = (await redisClient.eval(SLIDING_WINDOW_SCRIPT, {
+    keys: [key],
+    arguments: [
+      String(Date.now()),
+      String(windowSeconds * 1000),
+      String(limit),
+      crypto.randomBytes(8).toString("hex"),
+    ],
+  })) as number[];
+  return {
+    allowed: allowed === 1,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetSeconds: Math.max(1, Math.ceil(resetMs / 1000)),
+  };
+}
+
+// Counts the request against the policy's per-IP window and, once the route
+// has authenticated, the per-user one. The headers describe whichever window
+// is closest to its limit. If Redis is unreachable requests are let through
+// rather than failing every route.
+export function rateLimit(policy: RateLimitPolicy) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req.user as { username?: string } | undefined)?.username;
+    let results: WindowResult[];
+    try {
+      results = [
+        await hitWindow(windowKey(policy.name, "ip", req.ip || "unknown"), policy.perIp, policy.windowSeconds),
+      ];
+      if (user && policy.perUser !== undefined) {
+        results.push(await hitWindow(windowKey(policy.name, "user", user), policy.perUser, policy.windowSeconds));
+      }
+    } catch (err) {
+      console.error(`Rate limiting (${policy.name}) failed:`, err);
+      return next();
+    }
+
+    const blocked = results.find((result) => !result.allowed);
+    const tightest = blocked || results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    res.set({
+      "RateLimit-Policy": `${tightest.limit};w=${policy.windowSeconds}`,
+      "RateLimit-Limit": String(tightest.limit),
+      "RateLimit-Remaining": String(tightest.remaining),
+      "RateLimit-Reset": String(tightest.resetSeconds),
+    });
+    if (blocked) {
+      res.set("Retry-After", String(blocked.resetSeconds));
+      return res.status(429).json({
+        message: `Too many requests. Try again in ${blocked.resetSeconds} seconds.`,
+      });
+    }
+    next();
+  };
+}
+
+// Seconds left on the username's lockout, or 0 if it isn't locked.
+export async function loginLockoutSeconds(username: string): Promise<number> {
+  return Math.max(0, await redisClient.ttl(loginLockoutKey(username)));
+}
+
+// Records a failed login and locks the username once it has failed too
+// often. Returns the lockout's length in seconds if this failure started one.
+export async function recordLoginFailure(username: string): Promise<number> {
+  const [failures] = (await redisClient
+    .multi()
+    .incr(loginFailuresKey(username))
+    .expire(loginFailuresKey(username), LOGIN_FAILURE_WINDOW_SECONDS, "NX")
+    .exec()) as unknown as [number];
+  if (failures < LOGIN_MAX_FAILURES) return 0;
+  await redisClient
+    .multi()
+    .set(loginLockoutKey(username), "1", { EX: LOGIN_LOCKOUT_SECONDS })
+    .del(loginFailuresKey(username))
+    .exec();
+  return LOGIN_LOCKOUT_SECONDS;
+}
+
+export async function clearLoginFailures(username: string): Promise<void> {
+  await redisClient.del(loginFailuresKey(username));
+}
@@ -0,0 +1,15 @@
+import * as redis from "redis";
+
+export const redisClient = redis.createClient({
+  url: `redis://${process.env.NODE_ENV === "production" ? "redis" : "127.0.0.1"
+    }:6379/0`,
+});
+
+export type RedisClient = typeof redisClient;
+
+redisClient.on("error", (err: Error) => console.log("Redis Client Error", err));
+
+export async function connectToRedis(): Promise<void> {
+  await redisClient.connect();
+  console.log("Connected to Redis!");
+}
@@ -0,0 +1,193 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { Request } from "express";
+import multer from "multer";
+import {
+  S3Client,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+export class FileNotFoundError extends Error {
+  constructor(key: string) {
+    super(`File not found: ${key}`);
+    this.name = "FileNotFoundError";
+  }
+}
+
+// Where uploaded originals and processed versions live. Keys are plain
+// filenames such as "processed-<hex>-<original>.jpg".
+export interface StorageBackend {
+  put(key: string, body: Buffer | Readable, contentType?: string): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  // A URL the client can fetch directly, or null if the backend cannot
+  // produce one and files must be served through the API.
+  presign(key: string, expiresInSeconds: number): Promise<string | null>;
+}
+
+export class LocalStorage implements StorageBackend {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+    fs.mkdirSync(this.root, { recursive: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (path.dirname(filePath) !== this.root) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = this.resolve(key);
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new FileNotFoundError(key);
+    }
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+}
+
+export class S3Storage implements StorageBackend {
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string
+  ) {}
+
+  async put(key: string, body: Buffer | Readable, contentType?: string): Promise<void> {
+    // Upload handles streams of unknown length with a multipart upload.
+    await new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: body, ContentType: contentType },
+    }).done();
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return response.Body as Readable;
+    } catch (err) {
+      if ((err as Error).name === "NoSuchKey") {
+        throw new FileNotFoundError(key);
+      }
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return true;
+    } catch (err) {
+      if ((err as Error).name === "NotFound") return false;
+      throw err;
+    }
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string | null> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
+
+// STORAGE_DRIVER=s3 stores files in S3_BUCKET. S3_ENDPOINT points the driver
+// at an S3-compatible server such as MinIO; credentials come from the usual
+// AWS environment variables.
+function createStorage(): StorageBackend {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3.");
+    }
+    const client = new S3Client({
+      region: process.env.S3_REGION || "ap-southeast-2",
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+    });
+    return new S3Storage(client, process.env.S3_BUCKET);
+  }
+  return new LocalStorage(process.env.UPLOADS_DIR || "uploads");
+}
+
+export const storage: StorageBackend = createStorage();
+
+export async function readToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// A multer storage engine that writes uploads to `backend` under the name
+// chosen by `filename`. The stored key ends up in `req.file.filename`.
+export function multerStorage(
+  backend: StorageBackend,
+  filename: (req: Request, file: Express.Multer.File) => string
+): multer.StorageEngine {
+  return {
+    _handleFile(req, file, cb) {
+      const key = filename(req as Request, file);
+      let size = 0;
+      file.stream.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+      });
+      backend
+        .put(key, file.stream, file.mimetype)
+        .then(() => cb(null, { filename: key, path: key, size }))
+        .catch(cb);
+    },
+    _removeFile(req, file, cb) {
+      backend
+        .delete(file.filename)
+        .then(() => cb(null))
+        .catch(cb);
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import axios from "axios";
+import FormData from "form-data";
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import { redisClient, RedisClient } from "./redis";
+import { readToBuffer, storage } from "./storage";
+import { MAX_TAGS_PER_IMAGE, normalizeTag, updateImageTags } from "./tags";
+import { MAX_INPUT_PIXELS } from "./validation";
+
+// Image ids waiting to be tagged, newest on the left.
+const TAGGING_QUEUE = "queue:tagging";
+
+export interface Tagger {
+  readonly name: string;
+  tag(image: Buffer, filename: string): Promise<string[]>;
+}
+
+// Imagga's hosted tagging API. Keeps the top 5 tags with confidence over 20.
+export class ImaggaTagger implements Tagger {
+  readonly name = "imagga";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly apiSecret: string
+  ) {}
+
+  async tag(image: Buffer, filename: string): Promise<string[]> {
+    const form = new FormData();
+    form.append("image", image, { filename });
+
+    const response = await axios.post("https://api.imagga.com/v2/tags", form, {
+      headers: {
+        ...form.getHeaders(),
+        Authorization:
+          "Basic " + Buffer.from(`${this.apiKey}:${this.apiSecret}`).toString("base64"),
+      },
+      timeout: 30000,
+    });
+
+    return response.data.result.tags
+      .filter((tag: { confidence: number }) => tag.confidence > 20)
+      .slice(0, 5)
+      .map((tag: { tag: { en: string } }) => tag.tag.en);
+  }
+}
+
+// Names a pixel's colour from its hue, saturation and value.
+function colorName(r: number, g: number, b: number): string {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const value = max / 255;
+  const saturation = max === 0 ? 0 : (max - min) / max;
+
+  if (value < 0.2) return "black";
+  if (saturation < 0.15) return value > 0.85 ? "white" : "gray";
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / (max - min)) * 60;
+  else if (max === g) hue = ((b - r) / (max - min)) * 60 + 120;
+  else hue = ((r - g) / (max - min)) * 60 + 240;
+  if (hue < 0) hue += 360;
+
+  if ((hue < 45 || hue >= 345) && value < 0.6) return "brown";
+  if (hue < 15 || hue >= 345) return "red";
+  if (hue < 45) return "orange";
+  if (hue < 70) return "yellow";
+  if (hue < 170) return "green";
+  if (hue < 200) return "cyan";
+  if (hue < 260) return "blue";
+  if (hue < 290) return "purple";
+  return "pink";
+}
+
+// Tags from the image itself, without any network calls: up to three
+// dominant colours, orientation, a size class and the camera model.
+export class LocalTagger implements Tagger {
+  readonly name = "local";
+
+  async tag(image: Buffer): Promise<string[]> {
+    const metadata = await sharp(image, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    const tags: string[] = [];
+
+    // A 32x32 thumbnail is plenty for colour counting.
+    const { data, info } = await sharp(image, { limitInputPixels: MAX_INPUT_PIXELS })
+      .resize(32, 32, { fit: "inside" })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const counts = new Map<string, number>();
+    for (let i = 0; i < data.length; i += info.channels) {
+      const name =
+        info.channels >= 3
+          ? colorName(data[i], data[i + 1], data[i + 2])
+          : colorName(data[i], data[i], data[i]);
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+    const pixels = data.length / info.channels;
+    tags.push(
+      ...[...counts.entries()]
+        .filter(([, count]) => count / pixels >= 0.15)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([name]) => name)
+    );
+
+    // EXIF orientations 5-8 are rotated a quarter turn.
+    const rotated = (metadata.orientation || 1) >= 5;
+    const width = (rotated ? metadata.height : metadata.width) || 0;
+    const height = (rotated ? metadata.width : metadata.height) || 0;
+    if (width === height) tags.push("square");
+    else tags.push(width > height ? "landscape" : "portrait");
+
+    const megapixels = (width * height) / 1_000_000;
+    if (megapixels < 0.5) tags.push("small");
+    else if (megapixels < 4) tags.push("medium");
+    else tags.push("large");
+
+    if (metadata.exif) {
+      try {
+        const model = exifReader(metadata.exif).Image?.Model?.trim();
+        if (model) tags.push(model);
+      } catch {
+        // Unreadable EXIF just means no camera tag.
+      }
+    }
+
+    return tags;
+  }
+}
+
+// Returns fixed tags, or fails with `error`, without looking at the image.
+export class MockTagger implements Tagger {
+  readonly name = "mock";
+
+  constructor(
+    private readonly tags: string[] = ["mock"],
+    private readonly error?: string
+  ) {}
+
+  async tag(): Promise<string[]> {
+    if (this.error) throw new Error(this.error);
+    return this.tags;
+  }
+}
+
+// TAGGER picks the provider: "imagga", "local" or "mock". Without it, Imagga
+// is used when its credentials are set and the local tagger otherwise.
+function createTagger(): Tagger {
+  const provider =
+    process.env.TAGGER || (process.env.IMAGGA_API_KEY ? "imagga" : "local");
+  switch (provider) {
+    case "imagga":
+      if (!process.env.IMAGGA_API_KEY || !process.env.IMAGGA_API_SECRET) {
+        throw new Error("IMAGGA_API_KEY and IMAGGA_API_SECRET must be set for the imagga tagger.");
+      }
+      return new ImaggaTagger(process.env.IMAGGA_API_KEY, process.env.IMAGGA_API_SECRET);
+    case "local":
+      return new LocalTagger();
+    case "mock":
+      return new MockTagger(
+        process.env.MOCK_TAGS ? process.env.MOCK_TAGS.split(",") : undefined,
+        process.env.MOCK_TAGGER_ERROR
+      );
+    default:
+      throw new Error(`Unknown TAGGER: ${provider}`);
+  }
+}
+
+export const tagger: Tagger = createTagger();
+
+export async function enqueueTagging(imageId: string): Promise<void> {
+  await redisClient
+    .multi()
+    .hSet(imageId, "tagging_status", "pending")
+    .lPush(TAGGING_QUEUE, imageId)
+    .exec();
+}
+
+// Blocks on `connection` for up to `timeoutSeconds` waiting for an image to tag.
+export async function claimTagging(
+  connection: RedisClient,
+  timeoutSeconds: number
+): Promise<string | null> {
+  const result = await connection.brPop(TAGGING_QUEUE, timeoutSeconds);
+  return result ? result.element : null;
+}
+
+// Adds tags from `provider` to the image's original file. Failures are
+// recorded on the image as tagging_status "failed" and tagging_error rather
+// than thrown.
+export async function tagImage(imageId: string, provider: Tagger = tagger): Promise<void> {
+  const [user, filename] = await redisClient.hmGet(imageId, ["user", "unique_filename"]);
+  if (!user || !filename) return;
+
+  let update: Record<string, string>;
+  try {
+    const tags = await provider.tag(
+      await readToBuffer(await storage.getStream(filename)),
+      filename
+    );
+    const normalized = new Set<string>();
+    for (const tag of tags) {
+      try {
+        normalized.add(normalizeTag(tag));
+      } catch {
+        // Skip tags a user could not have entered either.
+      }
+    }
+    await updateImageTags(imageId, user, {
+      add: [...normalized].slice(0, MAX_TAGS_PER_IMAGE),
+    });
+    update = {
+      tagging_status: "completed",
+      tagging_provider: provider.name,
+      tagging_error: "",
+    };
+  } catch (err) {
+    console.error(`Tagging ${imageId} with ${provider.name} failed:`, err);
+    update = {
+      tagging_status: "failed",
+      tagging_provider: provider.name,
+      tagging_error: (err as Error).message || String(err),
+    };
+  }
+
+  // The image may have been deleted while it was being tagged.
+  if (await redisClient.exists(imageId)) {
+    await redisClient.hSet(imageId, update);
+  }
+}
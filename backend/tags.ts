@@ -0,0 +1,224 @@
+import { redisClient } from "./redis";
+
+const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_IMAGE = 50;
+
+// How many of the user's images carry each tag, for autocomplete.
+export const tagCountsKey = (user: string) => `user:${user}:tags`;
+
+export class InvalidTagError extends Error {}
+
+// Tags are compared case-insensitively with whitespace collapsed, so
+// "Blue  Sky" and "blue sky" are the same tag.
+export function normalizeTag(tag: unknown): string {
+  if (typeof tag !== "string") {
+    throw new InvalidTagError("Tags must be strings.");
+  }
+  const normalized = tag.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!normalized) {
+    throw new InvalidTagError("Tags cannot be empty.");
+  }
+  if (normalized.length > MAX_TAG_LENGTH) {
+    throw new InvalidTagError(`Tags must be at most ${MAX_TAG_LENGTH} characters.`);
+  }
+  if (/["\u0000-\u001f]/.test(normalized)) {
+    throw new InvalidTagError("Tags cannot contain quotes or control characters.");
+  }
+  return normalized;
+}
+
+// Removes then adds tags on an image and keeps the user's tag counts in step,
+// all in one step so concurrent edits cannot lose each other's changes.
+// Returns the new tag list as JSON, or nil if the image does not exist.
+const UPDATE_TAGS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return nil end
+local tags = cjson.decode(redis.call('HGET', KEYS[1], 'tags') or '[]')
+local present = {}
+for _, tag in ipairs(tags) do present[tag] = true end
+
+for _, tag in ipairs(cjson.decode(ARGV[1])) do
+  if present[tag] then
+    present[tag] = nil
+    if tonumber(redis.call('ZINCRBY', KEYS[2], -1, tag)) <= 0 then
+      redis.call('ZREM', KEYS[2], tag)
+    end
+  end
+end
+for _, tag in ipairs(cjson.decode(ARGV[2])) do
+  if not present[tag] then
+    present[tag] = true
+    redis.call('ZINCRBY', KEYS[2], 1, tag)
+    table.insert(tags, tag)
+  end
+end
+
+local result = {}
+for _, tag in ipairs(tags) do
+  if present[tag] then
+    table.insert(result, tag)
+    present[tag] = nil
+  end
+end
+local encoded = #result == 0 and '[]' or cjson.encode(result)
+redis.call('HSET', KEYS[1], 'tags', encoded)
+return encoded
+`;
+
+// Returns the image's tags after the change, or null if the image is gone.
+export async function updateImageTags(
+  imageId: string,
+  user: string,
+  changes: { add?: string[]; remove?: string[] }
+): Promise<string[] | null> {
+  const result = await redisClient.eval(UPDATE_TAGS_SCRIPT, {
+    keys: [imageId, tagCountsKey(user)],
+    arguments: [
+      JSON.stringify(changes.remove || []),
+      JSON.stringify(changes.add || []),
+    ],
+  });
+  return typeof result === "string" ? JSON.parse(result) : null;
+}
+
+// The user's tags starting with `prefix`, most used first.
+export async function listUserTags(
+  user: string,
+  prefix: string,
+  limit: number
+): Promise<{ tag: string; count: number }[]> {
+  const entries = await redisClient.zRangeWithScores(tagCountsKey(user), 0, -1, {
+    REV: true,
+  });
+  return entries
+    .filter((entry) => entry.value.startsWith(prefix))
+    .slice(0, limit)
+    .map((entry) => ({ tag: entry.value, count: entry.score }));
+}
+
+// Rebuilds every user's tag counts from the image records, so images stored
+// before tags were counted are included.
+export async function rebuildTagCounts(): Promise<void> {
+  const counts = new Map<string, Map<string, number>>();
+  for await (const keys of redisClient.scanIterator({ MATCH: "image:*", COUNT: 100 })) {
+    for (const imageId of keys) {
+      const [user, tags] = await redisClient.hmGet(imageId, ["user", "tags"]);
+      if (!user) continue;
+      const userCounts = counts.get(user) || new Map<string, number>();
+      for (const tag of JSON.parse(tags || "[]") as string[]) {
+        userCounts.set(tag, (userCounts.get(tag) || 0) + 1);
+      }
+      counts.set(user, userCounts);
+    }
+  }
+
+  for (const [user, userCounts] of counts) {
+    const transaction = redisClient.multi().del(tagCountsKey(user));
+    if (userCounts.size > 0) {
+      transaction.zAdd(
+        tagCountsKey(user),
+        [...userCounts].map(([tag, count]) => ({ score: count, value: tag }))
+      );
+    }
+    await transaction.exec();
+  }
+}
+
+// A parsed tag search such as `beach AND (sunset OR night) NOT people`.
+export type TagQuery =
+  | { type: "tag"; tag: string }
+  | { type: "and"; terms: TagQuery[] }
+  | { type: "or"; terms: TagQuery[] }
+  | { type: "not"; term: TagQuery };
+
+export class InvalidTagQueryError extends Error {}
+
+// Splits a query into parentheses, quoted tags and bare words.
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /^(?:([()])|"([^"]*)"|([^\s()"]+))\s*/;
+  let rest = query.trim();
+  while (rest) {
+    const match = pattern.exec(rest);
+    if (!match) throw new InvalidTagQueryError("Unterminated quote in tag query.");
+    if (match[1]) tokens.push(match[1]);
+    else if (match[2] !== undefined) tokens.push(`"${match[2]}`);
+    else tokens.push(match[3]);
+    rest = rest.slice(match[0].length);
+  }
+  return tokens;
+}
+
+// Grammar, loosest binding first; adjacent terms are ANDed:
+//   or  := and ("OR" and)*
+//   and := not ("AND"? not)*
+//   not := "NOT" not | "(" or ")" | tag
+export function parseTagQuery(query: string): TagQuery {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isKeyword = (token: string | undefined, keyword: string) =>
+    token !== undefined && token.toUpperCase() === keyword;
+
+  function parseOr(): TagQuery {
+    const terms = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      position++;
+      terms.push(parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : { type: "or", terms };
+  }
+
+  function parseAnd(): TagQuery {
+    const terms = [parseNot()];
+    while (peek() !== undefined && peek() !== ")" && !isKeyword(peek(), "OR")) {
+      if (isKeyword(peek(), "AND")) position++;
+      terms.push(parseNot());
+    }
+    return terms.length === 1 ? terms[0] : { type: "and", terms };
+  }
+
+  function parseNot(): TagQuery {
+    const token = peek();
+    if (token === undefined) {
+      throw new InvalidTagQueryError("Tag query ended unexpectedly.");
+    }
+    position++;
+    if (isKeyword(token, "NOT")) return { type: "not", term: parseNot() };
+    if (token === "(") {
+      const inner = parseOr();
+      if (peek() !== ")") throw new InvalidTagQueryError("Missing closing parenthesis.");
+      position++;
+      return inner;
+    }
+    if (token === ")" || isKeyword(token, "AND") || isKeyword(token, "OR")) {
+      throw new InvalidTagQueryError(`Unexpected "${token}" in tag query.`);
+    }
+    const tag = token.startsWith('"') ? token.slice(1) : token;
+    try {
+      return { type: "tag", tag: normalizeTag(tag) };
+    } catch (err) {
+      throw new InvalidTagQueryError((err as Error).message);
+    }
+  }
+
+  if (tokens.length === 0) throw new InvalidTagQueryError("Tag query is empty.");
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new InvalidTagQueryError(`Unexpected "${tokens[position]}" in tag query.`);
+  }
+  return result;
+}
+
+export function matchesTagQuery(query: TagQuery, tags: string[]): boolean {
+  switch (query.type) {
+    case "tag":
+      return tags.includes(query.tag);
+    case "and":
+      return query.terms.every((term) => matchesTagQuery(term, tags));
+    case "or":
+      return query.terms.some((term) => matchesTagQuery(term, tags));
+    case "not":
+      return !matchesTagQuery(query.term, tags);
+  }
+}
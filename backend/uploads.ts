@@ -0,0 +1,308 @@
+import crypto from "crypto";
+import path from "path";
+import yauzl from "yauzl";
+import { redisClient } from "./redis";
+import { readToBuffer, storage } from "./storage";
+import { registerFile } from "./files";
+import { indexImage } from "./images";
+import { enqueueTagging } from "./tagging";
+import {
+  IMAGE_EXTENSIONS,
+  ImageValidationError,
+  VALIDATION_STATUS,
+  ValidationErrorCode,
+  checkImageSize,
+  filenameForFormat,
+  validateImage,
+} from "./validation";
+import { FileMetadata, extractMetadata } from "./metadata";
+import { addStoredBytes } from "./quotas";
+
+// Limits for one upload request. ZIP entries count towards both, so an
+// archive cannot be used to get around them.
+export const UPLOAD_MAX_FILES = parseInt(process.env.UPLOAD_MAX_FILES || "50");
+export const UPLOAD_MAX_TOTAL_BYTES = parseInt(
+  process.env.UPLOAD_MAX_TOTAL_BYTES || String(200 * 1024 * 1024)
+);
+
+export type UploadErrorCode = ValidationErrorCode | "quota_exceeded";
+
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+  ...VALIDATION_STATUS,
+  quota_exceeded: 413,
+};
+
+export interface UploadResult {
+  filename: string;
+  status: "uploaded" | "failed";
+  imageId?: string;
+  error?: string;
+  code?: UploadErrorCode;
+}
+
+// What is left of the request's limits, and of the user's plan, as files
+// are stored.
+export interface UploadBudget {
+  files: number;
+  bytes: number;
+  quotaImages: number;
+  quotaBytes: number;
+}
+
+// Charges a file of `size` bytes to the plan's part of the budget, or
+// returns why it doesn't fit.
+export function chargeQuota(filename: string, size: number, budget: UploadBudget): UploadResult | null {
+  if (budget.quotaImages <= 0) {
+    return {
+      filename,
+      status: "failed",
+      error: "Your plan's image limit has been reached.",
+      code: "quota_exceeded",
+    };
+  }
+  if (size > budget.quotaBytes) {
+    return {
+      filename,
+      status: "failed",
+      error: "Not enough storage left on your plan.",
+      code: "quota_exceeded",
+    };
+  }
+  budget.quotaImages--;
+  budget.quotaBytes -= size;
+  return null;
+}
+
+// Gives back what chargeQuota took for a file that wasn't stored.
+export function releaseQuota(size: number, budget: UploadBudget): void {
+  budget.quotaImages++;
+  budget.quotaBytes += size;
+}
+
+export const storageFilename = (originalFilename: string) =>
+  `${crypto.randomBytes(16).toString("hex")}${path.extname(originalFilename)}`;
+
+// Whether a file's name allows it to be an image or archive. Files without
+// an extension are judged on their contents.
+export function hasUploadableExtension(filename: string): boolean {
+  const extension = path.extname(filename).toLowerCase();
+  return !extension || extension === ".zip" || IMAGE_EXTENSIONS.includes(extension);
+}
+
+export function isZipUpload(file: Express.Multer.File): boolean {
+  return (
+    path.extname(file.originalname).toLowerCase() === ".zip" ||
+    ["application/zip", "application/x-zip-compressed"].includes(file.mimetype)
+  );
+}
+
+// Creates the image record for a file already in storage and queues it for
+// tagging. Returns the image id.
+export async function createImageRecord(
+  user: string,
+  file: { uniqueFilename: string; originalFilename: string; data: Buffer }
+): Promise<string> {
+  const imageId = `image:${file.uniqueFilename}`;
+  const uploadedAt = Date.now();
+  const size = file.data.length;
+  let fileMetadata: FileMetadata | null = null;
+  try {
+    fileMetadata = await extractMetadata(file.data);
+  } catch (err) {
+    // Validation already decoded the file; unreadable metadata isn't fatal.
+    console.error(`Failed to read metadata of ${file.uniqueFilename}:`, err);
+  }
+  await redisClient.hSet(imageId, {
+    user,
+    original_filename: file.originalFilename,
+    unique_filename: file.uniqueFilename,
+    status: "uploaded",
+    processed_versions: JSON.stringify([]),
+    tags: JSON.stringify([]),
+    uploaded_at: uploadedAt,
+    size,
+    ...(fileMetadata ? { file_metadata: JSON.stringify(fileMetadata) } : {}),
+  });
+  await registerFile(file.uniqueFilename, imageId);
+  await addStoredBytes(user, size);
+  await indexImage(user, {
+    imageId,
+    originalFilename: file.originalFilename,
+    uploadedAt,
+    size,
+  });
+  // Tags are filled in by the worker once the upload has been stored.
+  await enqueueTagging(imageId);
+  return imageId;
+}
+
+function rejected(filename: string, err: ImageValidationError): UploadResult {
+  return { filename, status: "failed", error: err.message, code: err.code };
+}
+
+// Validates a file multer has already stored and creates its image, renaming
+// it if its extension doesn't match its real format. Rejected files are
+// removed from storage.
+export async function acceptUploadedFile(
+  user: string,
+  file: Express.Multer.File
+): Promise<UploadResult> {
+  let stored = file.filename;
+  try {
+    checkImageSize(file.size);
+    const data = await readToBuffer(await storage.getStream(file.filename));
+    const { format } = await validateImage(data);
+    const uniqueFilename = filenameForFormat(file.filename, format);
+    if (uniqueFilename !== file.filename) {
+      await storage.put(uniqueFilename, data, `image/${format}`);
+      await storage.delete(file.filename);
+      stored = uniqueFilename;
+    }
+    const imageId = await createImageRecord(user, {
+      uniqueFilename,
+      originalFilename: file.originalname,
+      data,
+    });
+    return { filename: file.originalname, status: "uploaded", imageId };
+  } catch (err) {
+    await storage.delete(stored);
+    if (err instanceof ImageValidationError) return rejected(file.originalname, err);
+    throw err;
+  }
+}
+
+function openZip(buffer: Buffer): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) =>
+    yauzl.fromBuffer(buffer, { lazyEntries: true }, (err, zipfile) =>
+      err ? reject(err) : resolve(zipfile)
+    )
+  );
+}
+
+function readEntry(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    zipfile.openReadStream(entry, (err, stream) =>
+      err ? reject(err) : readToBuffer(stream).then(resolve, reject)
+    )
+  );
+}
+
+// yauzl's lazy entry events as an async iterator.
+async function* entries(zipfile: yauzl.ZipFile): AsyncGenerator<yauzl.Entry> {
+  while (true) {
+    const entry = await new Promise<yauzl.Entry | null>((resolve, reject) => {
+      const cleanup = () => {
+        zipfile.removeListener("entry", onEntry);
+        zipfile.removeListener("end", onEnd);
+        zipfile.removeListener("error", onError);
+      };
+      const onEntry = (entry: yauzl.Entry) => {
+        cleanup();
+        resolve(entry);
+      };
+      const onEnd = () => {
+        cleanup();
+        resolve(null);
+      };
+      const onError = (err: Error) => {
+        cleanup();
+        reject(err);
+      };
+      zipfile.once("entry", onEntry);
+      zipfile.once("end", onEnd);
+      zipfile.once("error", onError);
+      zipfile.readEntry();
+    });
+    if (!entry) return;
+    yield entry;
+  }
+}
+
+// Folders, dotfiles and macOS resource forks ("__MACOSX/...") aren't reported.
+const isJunkEntry = (fileName: string) =>
+  fileName.endsWith("/") ||
+  fileName.startsWith("__MACOSX/") ||
+  path.posix.basename(fileName).startsWith(".");
+
+async function storeZipEntry(
+  user: string,
+  zipfile: yauzl.ZipFile,
+  entry: yauzl.Entry,
+  budget: UploadBudget
+): Promise<UploadResult> {
+  const filename = path.posix.basename(entry.fileName);
+  if (!IMAGE_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+    return { filename, status: "failed", error: "Not an image file.", code: "unsupported_format" };
+  }
+  if (budget.files <= 0) {
+    return { filename, status: "failed", error: `More than ${UPLOAD_MAX_FILES} files in one upload.` };
+  }
+  // The sizes in the archive are checked again while the entry is read.
+  if (entry.uncompressedSize > budget.bytes) {
+    return { filename, status: "failed", error: "Exceeds the total upload size limit." };
+  }
+  try {
+    checkImageSize(entry.uncompressedSize);
+  } catch (err) {
+    if (err instanceof ImageValidationError) return rejected(filename, err);
+    throw err;
+  }
+  const overQuota = chargeQuota(filename, entry.uncompressedSize, budget);
+  if (overQuota) return overQuota;
+  budget.files--;
+  budget.bytes -= entry.uncompressedSize;
+
+  let data;
+  let format;
+  try {
+    data = await readEntry(zipfile, entry);
+    ({ format } = await validateImage(data));
+  } catch (err) {
+    releaseQuota(entry.uncompressedSize, budget);
+    if (err instanceof ImageValidationError) return rejected(filename, err);
+    throw err;
+  }
+  const uniqueFilename = storageFilename(filenameForFormat(filename, format));
+  try {
+    await storage.put(uniqueFilename, data, `image/${format}`);
+    const imageId = await createImageRecord(user, {
+      uniqueFilename,
+      originalFilename: filename,
+      data,
+    });
+    return { filename, status: "uploaded", imageId };
+  } catch (err) {
+    releaseQuota(entry.uncompressedSize, budget);
+    await storage.delete(uniqueFilename);
+    throw err;
+  }
+}
+
+// Unpacks a stored ZIP archive into one image per entry, in archive order.
+// A bad entry fails on its own; a corrupt archive fails as a whole.
+export async function storeZipEntries(
+  user: string,
+  zipKey: string,
+  budget: UploadBudget
+): Promise<UploadResult[]> {
+  const zipfile = await openZip(await readToBuffer(await storage.getStream(zipKey)));
+  const results: UploadResult[] = [];
+  try {
+    for await (const entry of entries(zipfile)) {
+      if (isJunkEntry(entry.fileName)) continue;
+      try {
+        results.push(await storeZipEntry(user, zipfile, entry, budget));
+      } catch (err) {
+        console.error(`Failed to store ZIP entry ${entry.fileName}:`, err);
+        results.push({
+          filename: path.posix.basename(entry.fileName),
+          status: "failed",
+          error: "Could not read this entry.",
+        });
+      }
+    }
+  } finally {
+    zipfile.close();
+  }
+  return results;
+}
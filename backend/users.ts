@@ -0,0 +1,103 @@
+import { redisClient } from "./redis";
+import { revokeUserRefreshTokens } from "./auth";
+import { userBatchesKey } from "./batches";
+import { userImageIndexKeys } from "./images";
+import { userJobsKey } from "./jobs";
+import { userMetadataDefaultsKey } from "./metadata";
+import { userPresetsKey } from "./presets";
+import { userQuotaKeys } from "./quotas";
+import { tagCountsKey } from "./tags";
+import { userWatermarkDefaultsKey, userWatermarksKey } from "./watermarks";
+
+export const ROLES = ["user", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Usernames that are always admins, e.g. ADMIN_USERS=alice,bob; this is how
+// the first admin is made. Others are promoted through the admin API.
+const ADMIN_USERS = (process.env.ADMIN_USERS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// Password hashes stay in the "users" hash; everything else about an
+// account is kept here.
+const accountKey = (username: string) => `user:${username}:account`;
+
+// Usernames are part of "user:<name>:..." keys, so a ":" would let one
+// user's keys collide with another's. Glob characters are refused too so a
+// name can never act as a pattern.
+const RESERVED_USERNAME_CHARACTERS = /[:*?[\]\\]/;
+
+export function isValidUsername(username: string): boolean {
+  return !RESERVED_USERNAME_CHARACTERS.test(username);
+}
+
+export interface Account {
+  username: string;
+  role: Role;
+  suspended: boolean;
+  // Unknown for accounts created before it was recorded.
+  created_at?: number;
+}
+
+export async function userExists(username: string): Promise<boolean> {
+  return (await redisClient.hExists("users", username)) === 1;
+}
+
+export async function listUsernames(): Promise<string[]> {
+  return (await redisClient.hKeys("users")).sort();
+}
+
+export async function createAccount(username: string): Promise<void> {
+  await redisClient.hSet(accountKey(username), { role: "user", created_at: Date.now() });
+}
+
+export async function getAccount(username: string): Promise<Account> {
+  const hash = await redisClient.hGetAll(accountKey(username));
+  const role = ROLES.includes(hash.role as Role) ? (hash.role as Role) : "user";
+  return {
+    username,
+    role: ADMIN_USERS.includes(username) ? "admin" : role,
+    suspended: hash.suspended === "true",
+    created_at: hash.created_at ? parseInt(hash.created_at) : undefined,
+  };
+}
+
+export async function setRole(username: string, role: Role): Promise<void> {
+  await redisClient.hSet(accountKey(username), "role", role);
+}
+
+export async function setSuspended(username: string, suspended: boolean): Promise<void> {
+  await redisClient.hSet(accountKey(username), "suspended", String(suspended));
+}
+
+// Checked on every authenticated request, so deleting or suspending an
+// account takes effect before its access tokens expire.
+export async function accountStatus(username: string): Promise<"active" | "suspended" | "missing"> {
+  const [exists, suspended] = await Promise.all([
+    userExists(username),
+    redisClient.hGet(accountKey(username), "suspended"),
+  ]);
+  if (!exists) return "missing";
+  return suspended === "true" ? "suspended" : "active";
+}
+
+// Removes the login and every per-user key. The caller deletes the user's
+// images, presets and other records first.
+export async function deleteUserKeys(username: string): Promise<void> {
+  // Otherwise they would sign in whoever registers the name next.
+  await revokeUserRefreshTokens(username);
+  await redisClient.del([
+    accountKey(username),
+    ...userQuotaKeys(username),
+    ...userImageIndexKeys(username),
+    tagCountsKey(username),
+    userJobsKey(username),
+    userBatchesKey(username),
+    userPresetsKey(username),
+    userWatermarksKey(username),
+    userWatermarkDefaultsKey(username),
+    userMetadataDefaultsKey(username),
+  ]);
+  await redisClient.hDel("users", username);
+}
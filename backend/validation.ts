@@ -0,0 +1,150 @@
+import path from "path";
+import sharp from "sharp";
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "tiff" | "avif" | "heif";
+
+const ALL_FORMATS: ImageFormat[] = ["jpeg", "png", "webp", "gif", "tiff", "avif", "heif"];
+
+// Formats accepted on upload, e.g. UPLOAD_ALLOWED_FORMATS=jpeg,png,webp.
+export const ALLOWED_FORMATS: ImageFormat[] = (
+  process.env.UPLOAD_ALLOWED_FORMATS || "jpeg,png,webp,gif,tiff,avif"
+)
+  .split(",")
+  .map((format) => format.trim().toLowerCase())
+  .filter((format): format is ImageFormat => ALL_FORMATS.includes(format as ImageFormat));
+
+export const MAX_IMAGE_BYTES = parseInt(
+  process.env.UPLOAD_MAX_IMAGE_BYTES || String(25 * 1024 * 1024)
+);
+// Width × height; passed to sharp as limitInputPixels wherever it decodes
+// user images, so a small file that expands to a huge bitmap is refused
+// before it is decoded.
+export const MAX_INPUT_PIXELS = parseInt(process.env.UPLOAD_MAX_PIXELS || String(100_000_000));
+
+// Extensions clients use for each format. Files are stored under the first.
+const FORMAT_EXTENSIONS: Record<ImageFormat, string[]> = {
+  jpeg: [".jpg", ".jpeg"],
+  png: [".png"],
+  webp: [".webp"],
+  gif: [".gif"],
+  tiff: [".tif", ".tiff"],
+  avif: [".avif"],
+  heif: [".heic", ".heif"],
+};
+
+// Files with no extension are let through for their contents to decide.
+export const IMAGE_EXTENSIONS = Object.values(FORMAT_EXTENSIONS).flat();
+
+// "photo.png" holding a JPEG becomes "photo.jpg"; "photo.jpeg" is kept.
+export function filenameForFormat(filename: string, format: ImageFormat): string {
+  const extension = path.extname(filename);
+  if (FORMAT_EXTENSIONS[format].includes(extension.toLowerCase())) return filename;
+  return `${filename.slice(0, filename.length - extension.length)}${FORMAT_EXTENSIONS[format][0]}`;
+}
+
+export type ValidationErrorCode =
+  | "unsupported_format"
+  | "file_too_large"
+  | "too_many_pixels"
+  | "corrupt_image";
+
+export const VALIDATION_STATUS: Record<ValidationErrorCode, number> = {
+  unsupported_format: 415,
+  file_too_large: 413,
+  too_many_pixels: 413,
+  corrupt_image: 422,
+};
+
+export class ImageValidationError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: ValidationErrorCode, message: string) {
+    super(message);
+    this.name = "ImageValidationError";
+    this.status = VALIDATION_STATUS[code];
+  }
+}
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => data[offset + i] === byte);
+
+const ascii = (data: Buffer, start: number, end: number) =>
+  data.subarray(start, end).toString("latin1");
+
+// The format from the file's leading bytes, whatever its name says.
+export function detectFormat(data: Buffer): ImageFormat | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (ascii(data, 0, 6) === "GIF87a" || ascii(data, 0, 6) === "GIF89a") return "gif";
+  if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 12) === "WEBP") return "webp";
+  if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return "tiff";
+  }
+  // ISO-BMFF: a "ftyp" box whose major brand names the format.
+  if (ascii(data, 4, 8) === "ftyp") {
+    const brand = ascii(data, 8, 12);
+    if (brand === "avif" || brand === "avis") return "avif";
+    if (["heic", "heix", "hevc", "hevx", "mif1", "msf1"].includes(brand)) return "heif";
+  }
+  return null;
+}
+
+export interface ValidatedImage {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+// Also called with the size a file claims before it is read, so an
+// oversized one is refused without buffering it.
+export function checkImageSize(size: number): void {
+  if (size > MAX_IMAGE_BYTES) {
+    throw new ImageValidationError(
+      "file_too_large",
+      `Images are limited to ${MAX_IMAGE_BYTES} bytes.`
+    );
+  }
+}
+
+// Checks an uploaded file is an allowed image within the limits and decodes
+// it in full, so truncated or corrupt files are refused now rather than
+// failing later in a job.
+export async function validateImage(data: Buffer): Promise<ValidatedImage> {
+  checkImageSize(data.length);
+  const format = detectFormat(data);
+  if (!format || !ALLOWED_FORMATS.includes(format)) {
+    throw new ImageValidationError(
+      "unsupported_format",
+      `Not a supported image. Allowed formats: ${ALLOWED_FORMATS.join(", ")}.`
+    );
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw new ImageValidationError("corrupt_image", "The image could not be read.");
+  }
+  const width = metadata.width ?? 0;
+  const height = (metadata.pageHeight ?? metadata.height ?? 0) * (metadata.pages ?? 1);
+  if (width * height > MAX_INPUT_PIXELS) {
+    throw new ImageValidationError(
+      "too_many_pixels",
+      `Images are limited to ${MAX_INPUT_PIXELS} pixels.`
+    );
+  }
+
+  try {
+    await sharp(data, {
+      limitInputPixels: MAX_INPUT_PIXELS,
+      failOn: "truncated",
+      pages: -1,
+    }).stats();
+  } catch {
+    throw new ImageValidationError(
+      "corrupt_image",
+      "The image is corrupt or truncated."
+    );
+  }
+  return { format, width: metadata.width ?? 0, height: metadata.height ?? 0 };
+}
@@ -0,0 +1,137 @@
+import { redisClient } from "./redis";
+import { ImageOperation } from "./operations";
+
+// One processed version of an image, stored in the image's
+// processed_versions JSON array.
+export interface Version {
+  filename: string;
+  // The file the operations were applied to: the original or another version.
+  parent: string;
+  operations: ImageOperation[];
+  job_id?: string;
+  created_at?: number;
+  width?: number;
+  height?: number;
+  size?: number;
+  format?: string;
+}
+
+// Versions created before lineage was recorded are bare filenames. Those are
+// treated as made from the original with unknown operations.
+export function parseVersions(metadata: Record<string, string>): Version[] {
+  const entries: (string | Version)[] = JSON.parse(metadata.processed_versions || "[]");
+  return entries.map((entry) =>
+    typeof entry === "string"
+      ? { filename: entry, parent: metadata.unique_filename, operations: [] }
+      : // Redis' cjson writes empty arrays back as {}.
+        { ...entry, operations: Array.isArray(entry.operations) ? entry.operations : [] }
+  );
+}
+
+export function versionFilenames(metadata: Record<string, string>): string[] {
+  return parseVersions(metadata).map((version) => version.filename);
+}
+
+// Appends a version and makes it the image's current one, in one step so two
+// jobs finishing on the same image cannot overwrite each other's entry.
+// Returns 0 without changes if the image was deleted while the job ran.
+const APPEND_VERSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local versions = cjson.decode(redis.call('HGET', KEYS[1], 'processed_versions') or '[]')
+table.insert(versions, cjson.decode(ARGV[1]))
+redis.call('HSET', KEYS[1], 'processed_versions', cjson.encode(versions),
+  'status', 'completed', 'current_version', ARGV[2])
+return 1
+`;
+
+export async function appendVersion(imageId: string, version: Version): Promise<boolean> {
+  const appended = await redisClient.eval(APPEND_VERSION_SCRIPT, {
+    keys: [imageId],
+    arguments: [JSON.stringify(version), version.filename],
+  });
+  return appended === 1;
+}
+
+// Removes the versions named in ARGV[1] (a JSON array of filenames). If the
+// current version is among them, ARGV[2] becomes current instead.
+const REMOVE_VERSIONS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local removed = {}
+for _, filename in ipairs(cjson.decode(ARGV[1])) do removed[filename] = true end
+local kept = {}
+for _, version in ipairs(cjson.decode(redis.call('HGET', KEYS[1], 'processed_versions') or '[]')) do
+  local filename = type(version) == 'table' and version.filename or version
+  if not removed[filename] then table.insert(kept, version) end
+end
+redis.call('HSET', KEYS[1], 'processed_versions', #kept == 0 and '[]' or cjson.encode(kept))
+if removed[redis.call('HGET', KEYS[1], 'current_version') or ''] then
+  redis.call('HSET', KEYS[1], 'current_version', ARGV[2])
+end
+return 1
+`;
+
+export async function removeVersions(
+  imageId: string,
+  filenames: string[],
+  fallbackCurrent: string
+): Promise<boolean> {
+  const removed = await redisClient.eval(REMOVE_VERSIONS_SCRIPT, {
+    keys: [imageId],
+    arguments: [JSON.stringify(filenames), fallbackCurrent],
+  });
+  return removed === 1;
+}
+
+// `filename` and every version derived from it, directly or indirectly.
+export function descendantsOf(versions: Version[], filename: string): Version[] {
+  const result: Version[] = [];
+  const pending = [filename];
+  while (pending.length > 0) {
+    const parent = pending.pop();
+    for (const version of versions) {
+      if (version.parent === parent) {
+        result.push(version);
+        pending.push(version.filename);
+      }
+    }
+  }
+  return result;
+}
+
+export interface LineageNode extends Partial<Version> {
+  filename: string;
+  original: boolean;
+  current: boolean;
+  children: LineageNode[];
+}
+
+// The image's versions as a tree rooted at the original upload. Versions
+// whose parent no longer exists hang off the root.
+export function buildLineage(metadata: Record<string, string>): LineageNode {
+  const versions = parseVersions(metadata);
+  const current = metadata.current_version || metadata.unique_filename;
+  const nodes = new Map<string, LineageNode>();
+
+  const root: LineageNode = {
+    filename: metadata.unique_filename,
+    original: true,
+    current: current === metadata.unique_filename,
+    created_at: metadata.uploaded_at ? parseInt(metadata.uploaded_at) : undefined,
+    size: metadata.size ? parseInt(metadata.size) : undefined,
+    children: [],
+  };
+  nodes.set(root.filename, root);
+  for (const version of versions) {
+    nodes.set(version.filename, {
+      ...version,
+      original: false,
+      current: current === version.filename,
+      children: [],
+    });
+  }
+  for (const version of versions) {
+    const parent = nodes.get(version.parent) || root;
+    parent.children.push(nodes.get(version.filename)!);
+  }
+  return root;
+}
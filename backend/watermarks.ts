@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { redisClient } from "./redis";
+import { readToBuffer, storage } from "./storage";
+import { ImageOperation, applyOperations, validateOperations } from "./operations";
+import { MAX_INPUT_PIXELS } from "./validation";
+import { orientedImage } from "./metadata";
+
+export type WatermarkOperation = Extract<ImageOperation, { type: "composite" }>;
+
+export const MAX_WATERMARKS = 20;
+// Stored watermarks are downscaled to fit; they are scaled to the image anyway.
+const MAX_WATERMARK_SIZE = 2000;
+// Used when an operation names no watermark image of its own.
+const BUILTIN_WATERMARK = "watermark.png";
+
+// Pango font families for the operation's font choices.
+const FONT_FAMILIES: Record<string, string> = {
+  "sans-serif": "Sans",
+  serif: "Serif",
+  monospace: "Monospace",
+};
+
+export interface Watermark {
+  id: string;
+  owner: string;
+  name: string;
+  // Storage key of the watermark, always a PNG.
+  filename: string;
+  width: number;
+  height: number;
+  created_at: number;
+}
+
+// The user's default watermark, used by downloads and offered in the editor.
+export interface WatermarkDefaults {
+  operation: WatermarkOperation;
+  applyToDownloads: boolean;
+}
+
+const watermarkKey = (watermarkId: string) => `watermark:${watermarkId}`;
+export const userWatermarksKey = (user: string) => `user:${user}:watermarks`;
+export const userWatermarkDefaultsKey = (user: string) => `user:${user}:watermark_defaults`;
+
+export async function getWatermark(watermarkId: string): Promise<Watermark | null> {
+  const hash = await redisClient.hGetAll(watermarkKey(watermarkId));
+  if (Object.keys(hash).length === 0) return null;
+  return {
+    id: hash.id,
+    owner: hash.owner,
+    name: hash.name,
+    filename: hash.filename,
+    width: parseInt(hash.width),
+    height: parseInt(hash.height),
+    created_at: parseInt(hash.created_at),
+  };
+}
+
+export async function listWatermarks(user: string): Promise<Watermark[]> {
+  const ids = await redisClient.zRange(userWatermarksKey(user), 0, -1, { REV: true });
+  const watermarks = await Promise.all(ids.map(getWatermark));
+  return watermarks.filter((watermark): watermark is Watermark => watermark !== null);
+}
+
+export async function countWatermarks(user: string): Promise<number> {
+  return redisClient.zCard(userWatermarksKey(user));
+}
+
+// Stores `data`, an already validated image, as a PNG watermark.
+export async function createWatermark(
+  owner: string,
+  name: string,
+  data: Buffer
+): Promise<Watermark> {
+  const id = crypto.randomUUID();
+  const { data: png, info } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize(MAX_WATERMARK_SIZE, MAX_WATERMARK_SIZE, { fit: "inside", withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const filename = `watermark-${id}.png`;
+  await storage.put(filename, png, "image/png");
+
+  const now = Date.now();
+  await redisClient
+    .multi()
+    .hSet(watermarkKey(id), {
+      id,
+      owner,
+      name,
+      filename,
+      width: info.width,
+      height: info.height,
+      created_at: now,
+    })
+    .zAdd(userWatermarksKey(owner), { score: now, value: id })
+    .exec();
+  return (await getWatermark(id))!;
+}
+
+// Deleting a watermark the user's default points at resets the default to
+// the built-in one. Saved presets and queued jobs using it will fail.
+export async function deleteWatermark(watermark: Watermark): Promise<void> {
+  await redisClient
+    .multi()
+    .del(watermarkKey(watermark.id))
+    .zRem(userWatermarksKey(watermark.owner), watermark.id)
+    .exec();
+  await storage.delete(watermark.filename);
+
+  const defaults = await getWatermarkDefaults(watermark.owner);
+  if (defaults.operation.watermarkId === watermark.id) {
+    await setWatermarkDefaults(watermark.owner, {
+      ...defaults,
+      operation: { ...defaults.operation, watermarkId: "" },
+    });
+  }
+}
+
+// Watermark ids in `operations` that aren't `user`'s own (or don't exist).
+export async function foreignWatermarks(
+  operations: ImageOperation[],
+  user: string
+): Promise<string[]> {
+  const ids = operations
+    .map((op) => (op.type === "composite" ? op.watermarkId : undefined))
+    .filter((id): id is string => Boolean(id));
+  const foreign: string[] = [];
+  for (const id of new Set(ids)) {
+    const watermark = await getWatermark(id);
+    if (!watermark || watermark.owner !== user) foreign.push(id);
+  }
+  return foreign;
+}
+
+export const defaultWatermarkOperation = (): WatermarkOperation =>
+  validateOperations([{ type: "composite" }]).operations[0] as WatermarkOperation;
+
+export async function getWatermarkDefaults(user: string): Promise<WatermarkDefaults> {
+  const stored = await redisClient.get(userWatermarkDefaultsKey(user));
+  if (stored) return JSON.parse(stored);
+  return { operation: defaultWatermarkOperation(), applyToDownloads: false };
+}
+
+export async function setWatermarkDefaults(
+  user: string,
+  defaults: WatermarkDefaults
+): Promise<void> {
+  await redisClient.set(userWatermarkDefaultsKey(user), JSON.stringify(defaults));
+}
+
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+async function renderText(op: WatermarkOperation, size: number): Promise<Buffer> {
+  const family = FONT_FAMILIES[op.font ?? "sans-serif"];
+  return sharp({
+    text: {
+      text: `<span foreground="${op.color ?? "#ffffff"}">${escapeMarkup(op.text ?? "")}</span>`,
+      font: `${family} ${size}`,
+      dpi: 72,
+      rgba: true,
+    },
+  })
+    .png()
+    .toBuffer();
+}
+
+async function loadWatermarkImage(watermarkId: string | undefined): Promise<Buffer> {
+  if (!watermarkId) return sharp(BUILTIN_WATERMARK).toBuffer();
+  const watermark = await getWatermark(watermarkId);
+  if (!watermark) throw new Error(`Watermark ${watermarkId} no longer exists.`);
+  return readToBuffer(await storage.getStream(watermark.filename));
+}
+
+export interface WatermarkOverlay {
+  input: Buffer;
+  gravity?: string;
+  tile?: boolean;
+}
+
+// The overlay for a composite operation on a `width` × `height` image: sized
+// to `scale` of the image's width (operations saved before scale existed
+// keep the watermark's own size), never larger than the image, and padded
+// so it sits clear of the edges or, when tiled, of the next tile.
+export async function renderWatermark(
+  op: WatermarkOperation,
+  width: number,
+  height: number
+): Promise<WatermarkOverlay> {
+  const margin = Math.round(Math.min(width, height) * 0.02);
+  const targetWidth = op.scale !== undefined ? Math.max(1, Math.round(width * op.scale)) : undefined;
+
+  let overlay: Buffer;
+  if (op.mode === "text") {
+    // Render once to measure, then again at the size that fills targetWidth
+    // so the text is drawn sharp rather than stretched.
+    const probe = await sharp(await renderText(op, 100)).metadata();
+    const size = targetWidth ? Math.max(1, Math.floor((100 * targetWidth) / probe.width!)) : 100;
+    overlay = await renderText(op, size);
+  } else {
+    overlay = await loadWatermarkImage(op.watermarkId);
+  }
+
+  const { width: overlayWidth = 1, height: overlayHeight = 1 } = await sharp(overlay).metadata();
+  const factor = Math.min(
+    targetWidth ? targetWidth / overlayWidth : 1,
+    Math.max(1, width - 2 * margin) / overlayWidth,
+    Math.max(1, height - 2 * margin) / overlayHeight
+  );
+  const scaledWidth = Math.max(1, Math.round(overlayWidth * factor));
+  const scaledHeight = Math.max(1, Math.round(overlayHeight * factor));
+  const transparent = { r: 0, g: 0, b: 0, alpha: 0 };
+
+  let resized = sharp(overlay).ensureAlpha().resize(scaledWidth, scaledHeight, { fit: "fill" });
+  if (op.gravity === "tile") {
+    const gapX = Math.max(margin, Math.round(scaledWidth / 2));
+    const gapY = Math.max(margin, Math.round(scaledHeight / 2));
+    resized = sharp(await resized.png().toBuffer()).extend({
+      right: gapX,
+      bottom: gapY,
+      background: transparent,
+    });
+    return { input: await resized.png().toBuffer(), gravity: "northwest", tile: true };
+  }
+  resized = sharp(await resized.png().toBuffer()).extend({
+    top: margin,
+    bottom: margin,
+    left: margin,
+    right: margin,
+    background: transparent,
+  });
+  return { input: await resized.png().toBuffer(), gravity: op.gravity };
+}
+
+// `data` with the watermark applied, in the same format, for downloads.
+export async function applyWatermark(data: Buffer, op: WatermarkOperation): Promise<Buffer> {
+  const { format } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  const image = await applyOperations(await orientedImage(data), [op]);
+  return (format ? image.toFormat(format as keyof sharp.FormatEnum) : image.png()).toBuffer();
+}
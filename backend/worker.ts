@@ -0,0 +1,255 @@
+import sharp from "sharp";
+import crypto from "crypto";
+import path from "path";
+import dotenv from "dotenv";
+dotenv.config();
+import { redisClient, connectToRedis, RedisClient } from "./redis";
+import { applyOperations, outputExtension } from "./operations";
+import { registerFile, unregisterFiles } from "./files";
+import { readToBuffer, storage } from "./storage";
+import {
+  Job,
+  JobCancelledError,
+  claimJob,
+  completeJob,
+  failJob,
+  finishCancelledJob,
+  promoteDelayedJobs,
+  recoverStalledJobs,
+  reportJobProgress,
+  touchJob,
+} from "./jobs";
+import { claimTagging, tagImage, tagger } from "./tagging";
+import { appendVersion } from "./versions";
+import { restoreImageStatus, setImageStatus } from "./images";
+import { MAX_INPUT_PIXELS } from "./validation";
+import { RENDER_TIME_BUDGET_MS, RenderTimeoutError } from "./workerPool";
+import {
+  encodeWithMetadata,
+  extractMetadata,
+  getMetadataDefaults,
+  orientedImage,
+} from "./metadata";
+import {
+  QuotaExceededError,
+  addProcessingTime,
+  addStoredBytes,
+  checkProcessingQuota,
+} from "./quotas";
+
+const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || "2");
+const HEARTBEAT_INTERVAL_MS = 10000;
+const MAINTENANCE_INTERVAL_MS = 1000;
+const STALL_CHECK_INTERVAL_MS = 30000;
+
+let running = true;
+
+// The job's image was deleted before or while it ran; retrying can't help.
+class ImageDeletedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageDeletedError";
+  }
+}
+
+// The output format sharp uses for a filename's extension, if it can write one.
+function formatForFilename(filename: string): keyof sharp.FormatEnum | undefined {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  const formats = Object.keys(sharp.format) as (keyof sharp.FormatEnum)[];
+  return formats.find((name) => {
+    const output = sharp.format[name].output as { buffer: boolean; alias?: string[] };
+    return output.buffer && (name === extension || !!output.alias?.includes(extension));
+  });
+}
+
+async function processJob(job: Job): Promise<string> {
+  const imageMetadata = await redisClient.hGetAll(job.image_id);
+  if (!imageMetadata || Object.keys(imageMetadata).length === 0) {
+    throw new ImageDeletedError(`Image ${job.image_id} no longer exists.`);
+  }
+
+  const extension = outputExtension(job.operations);
+  const baseFilename = extension
+    ? `${path.parse(imageMetadata.unique_filename).name}.${extension}`
+    : imageMetadata.unique_filename;
+  const processedFilename = `processed-${crypto
+    .randomBytes(8)
+    .toString("hex")}-${baseFilename}`;
+
+  // Jobs queued before the user ran out (a batch, say) don't run.
+  await checkProcessingQuota(job.user);
+  await setImageStatus(job.image_id, "processing");
+  const source = await readToBuffer(await storage.getStream(job.source));
+  const sourceInfo = await sharp(source, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  const image = await applyOperations(
+    await orientedImage(source),
+    job.operations,
+    (step) => reportJobProgress(job, step),
+    Date.now() + RENDER_TIME_BUDGET_MS
+  );
+  // Without an explicit format step the output keeps the original's
+  // extension, so encode it to match (or as the source's own format).
+  const format = extension
+    ? undefined
+    : formatForFilename(baseFilename) ?? sourceInfo.format;
+  const { data, info } = await encodeWithMetadata(
+    format ? image.toFormat(format) : image,
+    await extractMetadata(source),
+    sourceInfo.icc,
+    job.output_metadata ?? (await getMetadataDefaults(job.user))
+  );
+  await storage.put(processedFilename, data, `image/${info.format}`);
+
+  await registerFile(processedFilename, job.image_id);
+  const appended = await appendVersion(job.image_id, {
+    filename: processedFilename,
+    parent: job.source,
+    operations: job.operations,
+    job_id: job.id,
+    created_at: Date.now(),
+    width: info.width,
+    height: info.height,
+    size: info.size,
+    format: info.format,
+  });
+  if (!appended) {
+    // The image was deleted while the job ran; don't leave an orphan behind.
+    await unregisterFiles([processedFilename]);
+    await storage.delete(processedFilename);
+    throw new ImageDeletedError(`Image ${job.image_id} was deleted during processing.`);
+  }
+  await addStoredBytes(job.user, info.size);
+
+  return processedFilename;
+}
+
+// Marks a job that threw as cancelled, retrying or failed.
+async function recordFailure(job: Job, err: unknown): Promise<void> {
+  if (err instanceof JobCancelledError) {
+    await finishCancelledJob(job.id);
+    await restoreImageStatus(job.image_id);
+    console.log(`Job ${job.id} for ${job.image_id} cancelled.`);
+    return;
+  }
+  console.error(`Job ${job.id} attempt ${job.attempts} failed:`, err);
+  // Another attempt would run out of time, or over quota, or find the image
+  // gone, the same way.
+  const retrying = await failJob(
+    job,
+    err,
+    !(
+      err instanceof RenderTimeoutError ||
+      err instanceof QuotaExceededError ||
+      err instanceof ImageDeletedError
+    )
+  );
+  if (!retrying) {
+    await setImageStatus(job.image_id, "failed");
+  }
+}
+
+async function consume(connection: RedisClient, slot: number): Promise<void> {
+  while (running) {
+    let job: Job | null;
+    try {
+      job = await claimJob(connection, 5);
+    } catch (err) {
+      console.error(`Worker slot ${slot} failed to claim a job:`, err);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      continue;
+    }
+    if (!job) continue;
+
+    const heartbeat = setInterval(() => {
+      touchJob(job.id).catch((err) =>
+        console.error(`Heartbeat failed for job ${job.id}:`, err)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const started = Date.now();
+    try {
+      const output = await processJob(job);
+      await completeJob(job.id, output);
+      console.log(`Job ${job.id} for ${job.image_id} completed.`);
+    } catch (err) {
+      // A Redis error while recording the outcome mustn't stop the worker.
+      // The job stays claimed, and is recovered once its heartbeat stops.
+      await recordFailure(job, err).catch((recordErr) =>
+        console.error(`Failed to record the outcome of job ${job.id}:`, recordErr)
+      );
+    } finally {
+      clearInterval(heartbeat);
+      // Charged as elapsed time, failed attempts included: jobs share the
+      // process and its render threads, so their CPU time can't be told apart.
+      await addProcessingTime(job.user, Date.now() - started).catch((err) =>
+        console.error(`Failed to record processing time of job ${job.id}:`, err)
+      );
+    }
+  }
+}
+
+// Tags uploads one at a time; tagImage records its own failures on the image.
+async function consumeTagging(connection: RedisClient): Promise<void> {
+  while (running) {
+    try {
+      const imageId = await claimTagging(connection, 5);
+      if (imageId) await tagImage(imageId);
+    } catch (err) {
+      console.error("Tagging consumer failed:", err);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+}
+
+async function startWorker(): Promise<void> {
+  await connectToRedis();
+  await recoverStalledJobs();
+
+  const maintenance = setInterval(() => {
+    promoteDelayedJobs().catch((err) =>
+      console.error("Failed to promote delayed jobs:", err)
+    );
+  }, MAINTENANCE_INTERVAL_MS);
+  const stallCheck = setInterval(() => {
+    recoverStalledJobs().catch((err) =>
+      console.error("Failed to recover stalled jobs:", err)
+    );
+  }, STALL_CHECK_INTERVAL_MS);
+
+  // Each consumer blocks on its own connection while waiting for work.
+  const connections: RedisClient[] = [];
+  for (let i = 0; i < WORKER_CONCURRENCY; i++) {
+    const connection = redisClient.duplicate();
+    await connection.connect();
+    connections.push(connection);
+  }
+  const taggingConnection = redisClient.duplicate();
+  await taggingConnection.connect();
+
+  const shutdown = () => {
+    console.log("Worker shutting down after in-flight jobs finish...");
+    running = false;
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  console.log(
+    `Worker started with concurrency ${WORKER_CONCURRENCY}, tagging with ${tagger.name}.`
+  );
+  await Promise.all([
+    ...connections.map((connection, i) => consume(connection, i)),
+    consumeTagging(taggingConnection),
+  ]);
+
+  clearInterval(maintenance);
+  clearInterval(stallCheck);
+  await Promise.all(
+    [...connections, taggingConnection].map((connection) => connection.quit())
+  );
+  await redisClient.quit();
+}
+
+startWorker().catch((err) => {
+  console.error("Worker failed to start:", err);
+  process.exit(1);
+});
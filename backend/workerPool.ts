@@ -0,0 +1,136 @@
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import type { PixelTask } from "./pixelWorker";
+
+// Threads per pool; CPU-bound work gains nothing from more than the cores.
+export const RENDER_THREADS = parseInt(
+  process.env.RENDER_THREADS || String(Math.min(4, os.availableParallelism()))
+);
+// How long one job's pixel work may take, across all of its steps.
+export const RENDER_TIME_BUDGET_MS = parseInt(
+  process.env.RENDER_TIME_BUDGET_MS || "30000"
+);
+
+export class RenderTimeoutError extends Error {
+  constructor() {
+    super("Rendering took longer than its time budget.");
+    this.name = "RenderTimeoutError";
+  }
+}
+
+// Splits `height` rows into bands for the pool, a couple per thread so
+// bands that render slower even out.
+export function rowBands(height: number): { startRow: number; endRow: number }[] {
+  const rowsPerBand = Math.ceil(height / (RENDER_THREADS * 2));
+  const bands: { startRow: number; endRow: number }[] = [];
+  for (let startRow = 0; startRow < height; startRow += rowsPerBand) {
+    bands.push({ startRow, endRow: Math.min(height, startRow + rowsPerBand) });
+  }
+  return bands;
+}
+
+interface Task<Request, Result> {
+  request: Request;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// A fixed set of worker threads running the script `name` (e.g.
+// "pixelWorker"), which answers each message with one result. Threads are
+// started on first use and don't keep the process alive while idle.
+export class WorkerPool<Request, Result> {
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Task<Request, Result>>();
+  private readonly queue: Task<Request, Result>[] = [];
+  private threads = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly size: number = RENDER_THREADS
+  ) {}
+
+  // Rejects with RenderTimeoutError if the result isn't back by `deadline`
+  // (a timestamp); a thread still working on it is stopped.
+  run(request: Request, deadline: number): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      const task: Task<Request, Result> = {
+        request,
+        resolve,
+        reject,
+        timer: setTimeout(() => this.expire(task), Math.max(0, deadline - Date.now())),
+      };
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.threads < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+
+  // Compiled builds run the .js script; under ts-node the thread has to
+  // register it too to load the .ts one.
+  private spawn(): Worker {
+    const extension = path.extname(__filename);
+    const worker = new Worker(path.join(__dirname, `${this.name}${extension}`), {
+      execArgv: extension === ".ts" ? ["--require", "ts-node/register/transpile-only"] : undefined,
+    });
+    this.threads++;
+
+    worker.on("message", (result: Result) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if (task) {
+        clearTimeout(task.timer);
+        task.resolve(result);
+      }
+      this.dispatch();
+    });
+    worker.on("error", (err) => {
+      const task = this.running.get(worker);
+      this.remove(worker);
+      if (task) {
+        clearTimeout(task.timer);
+        task.reject(err);
+      }
+      this.dispatch();
+    });
+    // After the listeners, which would otherwise ref the thread again.
+    worker.unref();
+    return worker;
+  }
+
+  private remove(worker: Worker): void {
+    this.running.delete(worker);
+    const index = this.idle.indexOf(worker);
+    if (index >= 0) this.idle.splice(index, 1);
+    this.threads--;
+  }
+
+  private expire(task: Task<Request, Result>): void {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      const worker = [...this.running].find(([, running]) => running === task)?.[0];
+      if (!worker) return;
+      // A busy thread can't be interrupted, only stopped and replaced.
+      this.remove(worker);
+      worker.terminate();
+      this.dispatch();
+    }
+    task.reject(new RenderTimeoutError());
+  }
+}
+
+// Shared by the pattern and displacement effects; see pixelWorker.ts.
+export const pixelPool = new WorkerPool<PixelTask, Uint8Array>("pixelWorker");
@@ -3,35 +3,47 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import LoginPage from './components/LoginPage';
 import RegisterPage from './components/RegisterPage';
 import DashboardPage from './components/DashboardPage';
+import AdminPage from './components/AdminPage';
+import api, { clearSession } from './services/api';
 import './App.css';
 
 function App() {
   // Type the state to accept a string or null
   const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
   const [username, setUsername] = useState<string | null>(localStorage.getItem('username'));
+  // Only decides what the UI offers; the server checks the role itself.
+  const [role, setRole] = useState<string | null>(localStorage.getItem('role'));
 
   useEffect(() => {
     const handleStorageChange = () => {
       setToken(localStorage.getItem('token'));
       setUsername(localStorage.getItem('username'));
+      setRole(localStorage.getItem('role'));
     };
     window.addEventListener('storage', handleStorageChange);
     return () => window.removeEventListener('storage', handleStorageChange);
   }, []);
 
   // Add types to the function parameters
-  const handleLogin = (newToken: string, newUsername: string) => {
+  const handleLogin = (newToken: string, newUsername: string, newRefreshToken: string, newRole: string) => {
     localStorage.setItem('token', newToken);
+    localStorage.setItem('refreshToken', newRefreshToken);
     localStorage.setItem('username', newUsername);
+    localStorage.setItem('role', newRole);
     setToken(newToken);
     setUsername(newUsername);
+    setRole(newRole);
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('username');
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      api.post('/logout', { refreshToken }).catch(error => console.error('Logout error:', error));
+    }
+    clearSession();
     setToken(null);
     setUsername(null);
+    setRole(null);
   };
 
   return (
@@ -45,12 +57,22 @@ function App() {
             path="/dashboard" 
             element={
               token ? (
-                <DashboardPage username={username} onLogout={handleLogout} />
+                <DashboardPage username={username} isAdmin={role === 'admin'} onLogout={handleLogout} />
               ) : (
                 <Navigate to="/login" />
               )
             } 
           />
+          <Route
+            path="/admin"
+            element={
+              token && role === 'admin' ? (
+                <AdminPage username={username} onLogout={handleLogout} />
+              ) : (
+                <Navigate to={token ? '/dashboard' : '/login'} />
+              )
+            }
+          />
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import api from '../services/api';
+import { Usage } from './UsageMeter';
+
+interface AdminUser {
+  username: string;
+  role: 'user' | 'admin';
+  suspended: boolean;
+  created_at?: number;
+  usage: Usage;
+}
+
+interface QueuedJob {
+  id: string;
+  image_id: string;
+  user: string;
+  status: string;
+  attempts: number;
+  error?: string;
+  created_at: number;
+}
+
+type QueueName = 'pending' | 'processing' | 'delayed' | 'dead';
+
+type QueueSnapshot = { [queue in QueueName]: { count: number; jobs: QueuedJob[] } };
+
+const QUEUE_LABELS: { [queue in QueueName]: string } = {
+  pending: 'Waiting',
+  processing: 'Running',
+  delayed: 'Retrying',
+  dead: 'Failed',
+};
+
+interface ErrorResponse {
+  message: string;
+  errors?: { [field: string]: string };
+}
+
+const PLANS = ['free', 'pro'];
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<ErrorResponse>).response?.data?.message || fallback;
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+interface AdminPageProps {
+  username: string | null;
+  onLogout: () => void;
+}
+
+// Accounts and what they use, lookup of any image record, and the job queues.
+function AdminPage({ username, onLogout }: AdminPageProps) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [queues, setQueues] = useState<QueueSnapshot | null>(null);
+  const [imageId, setImageId] = useState<string>('');
+  const [imageRecord, setImageRecord] = useState<unknown>(null);
+  const [message, setMessage] = useState<string>('');
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await api.get<{ users: AdminUser[] }>('/admin/users');
+      setUsers(response.data.users);
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      setMessage(errorMessage(error, 'Failed to load users.'));
+    }
+  }, []);
+
+  const fetchQueues = useCallback(async () => {
+    try {
+      const response = await api.get<QueueSnapshot>('/admin/jobs');
+      setQueues(response.data);
+    } catch (error) {
+      console.error('Failed to fetch the job queue:', error);
+      setMessage(errorMessage(error, 'Failed to load the job queue.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+    fetchQueues();
+  }, [fetchUsers, fetchQueues]);
+
+  const updateUser = async (user: AdminUser, changes: { role?: string; plan?: string; suspended?: boolean }) => {
+    try {
+      const response = await api.patch<AdminUser>(`/admin/users/${encodeURIComponent(user.username)}`, changes);
+      setUsers(prev => prev.map(entry => entry.username === user.username ? response.data : entry));
+      setMessage('');
+    } catch (error) {
+      setMessage(errorMessage(error, `Failed to update ${user.username}.`));
+    }
+  };
+
+  const deleteUser = async (user: AdminUser) => {
+    if (!window.confirm(`Delete ${user.username} and all of their images? This cannot be undone.`)) return;
+    try {
+      await api.delete(`/admin/users/${encodeURIComponent(user.username)}`);
+      setUsers(prev => prev.filter(entry => entry.username !== user.username));
+      setMessage(`${user.username} deleted.`);
+    } catch (error) {
+      setMessage(errorMessage(error, `Failed to delete ${user.username}.`));
+    }
+  };
+
+  const lookUpImage = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const id = imageId.trim().replace(/^image:/, '');
+    if (!id) return;
+    try {
+      const response = await api.get(`/admin/images/${encodeURIComponent(id)}`);
+      setImageRecord(response.data);
+      setMessage('');
+    } catch (error) {
+      setImageRecord(null);
+      setMessage(errorMessage(error, 'Failed to load the image.'));
+    }
+  };
+
+  return (
+    <div className="dashboard-container">
+      <header className="dashboard-header">
+        <h1>Admin</h1>
+        <Link to="/dashboard" className="admin-link">Dashboard</Link>
+        <button onClick={onLogout}>Logout</button>
+      </header>
+      {message && <p className="error-message">{message}</p>}
+
+      <section className="admin-section">
+        <h2>Users ({users.length})</h2>
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Role</th>
+              <th>Plan</th>
+              <th>Storage</th>
+              <th>Images</th>
+              <th>Processing today</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(user => (
+              <tr key={user.username} className={user.suspended ? 'suspended' : ''}>
+                <td>
+                  {user.username}
+                  {user.suspended && <small> (suspended)</small>}
+                </td>
+                <td>
+                  <select
+                    value={user.role}
+                    disabled={user.username === username}
+                    onChange={(e) => updateUser(user, { role: e.target.value })}
+                  >
+                    <option value="user">User</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                </td>
+                <td>
+                  <select value={user.usage.plan} onChange={(e) => updateUser(user, { plan: e.target.value })}>
+                    {PLANS.map(plan => <option key={plan} value={plan}>{plan}</option>)}
+                  </select>
+                </td>
+                <td>{formatBytes(user.usage.storageBytes)} / {formatBytes(user.usage.limits.storageBytes)}</td>
+                <td>{user.usage.images} / {user.usage.limits.images}</td>
+                <td>{user.usage.cpuSecondsToday}s / {user.usage.limits.cpuSecondsPerDay}s</td>
+                <td className="admin-actions">
+                  {user.username !== username && (
+                    <>
+                      <button onClick={() => updateUser(user, { suspended: !user.suspended })}>
+                        {user.suspended ? 'Reinstate' : 'Suspend'}
+                      </button>
+                      <button className="danger" onClick={() => deleteUser(user)}>Delete</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="admin-section">
+        <h2>Image lookup</h2>
+        <form className="admin-lookup" onSubmit={lookUpImage}>
+          <input
+            placeholder="Image id, e.g. 3f2a….jpg"
+            value={imageId}
+            onChange={(e) => setImageId(e.target.value)}
+          />
+          <button type="submit">Look up</button>
+        </form>
+        {imageRecord !== null && <pre className="admin-record">{JSON.stringify(imageRecord, null, 2)}</pre>}
+      </section>
+
+      <section className="admin-section">
+        <div className="gallery-header">
+          <h2>Job queue</h2>
+          <button className="section-toggle" onClick={fetchQueues}>Refresh</button>
+        </div>
+        {queues && (Object.keys(QUEUE_LABELS) as QueueName[]).map(queue => (
+          <div key={queue} className="admin-queue">
+            <h4>{QUEUE_LABELS[queue]} ({queues[queue].count})</h4>
+            {queues[queue].jobs.length > 0 && (
+              <table className="admin-table">
+                <tbody>
+                  {queues[queue].jobs.map(job => (
+                    <tr key={job.id}>
+                      <td>{job.id}</td>
+                      <td>{job.user}</td>
+                      <td>{job.image_id.replace(/^image:/, '')}</td>
+                      <td>{job.status} · attempt {job.attempts}</td>
+                      <td>{new Date(job.created_at).toLocaleString()}</td>
+                      <td>{job.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
+
+export default AdminPage;
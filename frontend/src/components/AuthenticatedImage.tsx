@@ -1,38 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import api from '../services/api';
+import api, { API_URL } from '../services/api';
 
 interface AuthenticatedImageProps {
-  src: string;
+  filename: string;
   alt: string;
   className?: string;
 }
 
-function AuthenticatedImage({ src, alt, className }: AuthenticatedImageProps) {
+interface SignedUrlResponse {
+  url: string;
+  expiresAt: number;
+}
+
+// Asks the backend for a short-lived signed URL, so the browser can load
+// (and cache) the file itself without an Authorization header.
+function AuthenticatedImage({ filename, alt, className }: AuthenticatedImageProps) {
   const [imgSrc, setImgSrc] = useState<string>('');
 
   useEffect(() => {
-    const fetchImage = async () => {
+    let cancelled = false;
+
+    const fetchSignedUrl = async () => {
       try {
-        const response = await api.get(src, { responseType: 'blob' });
-        const url = URL.createObjectURL(response.data);
-        setImgSrc(url);
+        const response = await api.get<SignedUrlResponse>(`/images/${encodeURIComponent(filename)}/url`);
+        // Storage backends like S3 hand out absolute URLs; ours are relative to the API.
+        const { url } = response.data;
+        if (!cancelled) setImgSrc(/^https?:\/\//.test(url) ? url : `${API_URL}${url}`);
       } catch (error) {
         console.error('Failed to load authenticated image:', error);
-        setImgSrc(''); // Clear src on error
+        if (!cancelled) setImgSrc(''); // Clear src on error
       }
     };
 
-    if (src) {
-      fetchImage();
+    if (filename) {
+      fetchSignedUrl();
     }
 
-    // Cleanup function to revoke object URL.
     return () => {
-      if (imgSrc) {
-        URL.revokeObjectURL(imgSrc);
-      }
+      cancelled = true;
     };
-  }, [src]); // Rerun when the src prop changes
+  }, [filename]); // Rerun when the filename prop changes
 
   if (!imgSrc) {
     
@@ -42,4 +49,4 @@ function AuthenticatedImage({ src, alt, className }: AuthenticatedImageProps) {
   return <img src={imgSrc} alt={alt} className={className} />;
 }
 
-export default AuthenticatedImage;
\ No newline at end of file
+export default AuthenticatedImage;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { OperationSchemas } from './EffectParamsForm';
+import { PresetList } from './PipelineBuilder';
+
+export interface Batch {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  total: number;
+  counts: { [status: string]: number };
+  progress: number;
+  created_at: number;
+}
+
+// What a batch runs: a saved preset, or one effect with its default settings.
+export type BatchAction = { presetId: string } | { effect: string };
+
+interface BatchActionBarProps {
+  selectedCount: number;
+  schemas: OperationSchemas;
+  presets: PresetList;
+  // The active tag search, if any, which a batch can target instead of a selection.
+  searchQuery: string;
+  batch: Batch | null;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onRun: (action: BatchAction, target: 'selection' | 'search') => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+function BatchActionBar({
+  selectedCount, schemas, presets, searchQuery, batch,
+  onSelectAll, onClearSelection, onRun, onCancel, onDismiss,
+}: BatchActionBarProps) {
+  const [choice, setChoice] = useState<string>('');
+
+  const action = (): BatchAction | null => {
+    if (choice.startsWith('preset:')) return { presetId: choice.slice('preset:'.length) };
+    if (choice.startsWith('effect:')) return { effect: choice.slice('effect:'.length) };
+    return null;
+  };
+
+  const run = (target: 'selection' | 'search') => {
+    const chosen = action();
+    if (chosen) onRun(chosen, target);
+  };
+
+  if (batch) {
+    return (
+      <div className="batch-bar">
+        <span>
+          Batch {batch.status}: {batch.counts.completed || 0}/{batch.total} done
+          {batch.counts.failed ? `, ${batch.counts.failed} failed` : ''}
+          {batch.counts.cancelled ? `, ${batch.counts.cancelled} cancelled` : ''}
+        </span>
+        <div className="job-progress batch-progress">
+          <div className="job-progress-bar" style={{ width: `${batch.progress}%` }} />
+        </div>
+        {batch.status === 'running'
+          ? <button onClick={onCancel}>Cancel batch</button>
+          : <button onClick={onDismiss}>Dismiss</button>}
+      </div>
+    );
+  }
+
+  if (selectedCount === 0 && !searchQuery) return null;
+
+  return (
+    <div className="batch-bar">
+      <span>{selectedCount} selected</span>
+      <button onClick={onSelectAll}>Select all shown</button>
+      {selectedCount > 0 && <button onClick={onClearSelection}>Clear</button>}
+      <select value={choice} onChange={(e) => setChoice(e.target.value)}>
+        <option value="">Choose an effect or preset…</option>
+        {[...presets.own, ...presets.shared].length > 0 && (
+          <optgroup label="Presets">
+            {[...presets.own, ...presets.shared].map(preset => (
+              <option key={preset.id} value={`preset:${preset.id}`}>{preset.name}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="Effects (default settings)">
+          {Object.entries(schemas).map(([type, schema]) => (
+            <option key={type} value={`effect:${type}`}>{schema.label}</option>
+          ))}
+        </optgroup>
+      </select>
+      <button onClick={() => run('selection')} disabled={!choice || selectedCount === 0}>
+        Apply to selected
+      </button>
+      {searchQuery && (
+        <button onClick={() => run('search')} disabled={!choice}>
+          Apply to all matching search
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default BatchActionBar;
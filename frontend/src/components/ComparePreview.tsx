@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import AuthenticatedImage from './AuthenticatedImage';
+
+export type CompareMode = 'single' | 'slider' | 'side-by-side';
+
+const MODE_LABELS: { [mode in CompareMode]: string } = {
+  single: 'Result',
+  slider: 'Before / after',
+  'side-by-side': 'Side by side',
+};
+
+interface ComparePreviewProps {
+  // The stored file the result was made from; without it only the result shows.
+  beforeFilename?: string;
+  afterFilename: string;
+  // A rendered preview to show instead of `afterFilename`, as an object URL.
+  afterSrc?: string;
+}
+
+// The card's main preview area: the active image on its own, or compared
+// with what it was made from using a slider or side by side.
+function ComparePreview({ beforeFilename, afterFilename, afterSrc }: ComparePreviewProps) {
+  const [mode, setMode] = useState<CompareMode>('single');
+  const [position, setPosition] = useState<number>(50);
+
+  const after = (className: string) =>
+    afterSrc
+      ? <img src={afterSrc} alt="Preview" className={className} />
+      : <AuthenticatedImage filename={afterFilename} alt="Active preview" className={className} />;
+
+  const activeMode = beforeFilename ? mode : 'single';
+
+  return (
+    <div className="compare-preview">
+      {beforeFilename && (
+        <div className="compare-modes">
+          {(Object.keys(MODE_LABELS) as CompareMode[]).map(option => (
+            <button
+              key={option}
+              className={option === activeMode ? 'active' : ''}
+              onClick={() => setMode(option)}
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+      {activeMode === 'single' && after('main-preview-area')}
+      {activeMode === 'slider' && beforeFilename && (
+        <div className="compare-slider main-preview-area">
+          <AuthenticatedImage filename={beforeFilename} alt="Before" className="compare-image" />
+          <div className="compare-after" style={{ clipPath: `inset(0 0 0 ${position}%)` }}>
+            {after('compare-image')}
+          </div>
+          <div className="compare-divider" style={{ left: `${position}%` }} />
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            aria-label="Before and after divider"
+          />
+        </div>
+      )}
+      {activeMode === 'side-by-side' && beforeFilename && (
+        <div className="compare-side-by-side">
+          <figure>
+            <AuthenticatedImage filename={beforeFilename} alt="Before" className="compare-image" />
+            <figcaption>Before</figcaption>
+          </figure>
+          <figure>
+            {after('compare-image')}
+            <figcaption>After</figcaption>
+          </figure>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComparePreview;
@@ -1,23 +1,74 @@
-import React, { useState, useEffect, useCallback, ChangeEvent } from 'react';
-import api from '../services/api';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import api, { jobEventsUrl, refreshAccessToken } from '../services/api';
 import AuthenticatedImage from './AuthenticatedImage';
+import ComparePreview from './ComparePreview';
+import TagEditor from './TagEditor';
+import VersionHistory, { Version, VersionOperation, describeOperations } from './VersionHistory';
+import PipelineBuilder, { Preset, PresetDetails, PresetList } from './PipelineBuilder';
+import UploadPanel from './UploadPanel';
+import WatermarkPanel, { WatermarkList, watermarkChoices } from './WatermarkPanel';
+import MetadataPanel, { MetadataSettings, OutputMetadataOptions } from './MetadataPanel';
+import UsageMeter, { Usage } from './UsageMeter';
+import BatchActionBar, { Batch, BatchAction } from './BatchActionBar';
+import EffectParamsForm, { EffectParams, OperationSchemas, defaultParams } from './EffectParamsForm';
 
 // --- (Interfaces remain the same) ---
 interface ImageMetadata {
   unique_filename: string;
   original_filename: string;
   status: 'uploaded' | 'processing' | 'completed' | 'failed';
-  processed_versions: string[];
+  processed_versions: Version[];
+  current_version?: string;
   tags: string[];
   user: string;
+  latest_job?: string;
+  tagging_status?: 'pending' | 'completed' | 'failed';
+  tagging_error?: string;
 }
 
 interface PaginatedImagesResponse {
+  totalImages: number;
   images: ImageMetadata[];
+  nextCursor: string | null;
 }
 
+// Gallery orderings offered to the user, as GET /images sortBy/order pairs.
+const SORT_OPTIONS: { [key: string]: { label: string; sortBy: string; order: 'asc' | 'desc' } } = {
+  newest: { label: 'Newest first', sortBy: 'uploaded_at', order: 'desc' },
+  oldest: { label: 'Oldest first', sortBy: 'uploaded_at', order: 'asc' },
+  name: { label: 'Name', sortBy: 'original_filename', order: 'asc' },
+  largest: { label: 'Largest first', sortBy: 'size', order: 'desc' },
+};
+
+const PAGE_SIZE = 12;
+
+interface Job {
+  id: string;
+  image_id: string;
+  status: 'queued' | 'processing' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  current_operation?: string;
+  error?: string;
+  output_filename?: string;
+  created_at: number;
+}
+
+interface JobsByImage {
+  [key: string]: Job;
+}
+
+// "operations[2].sigma" -> "Step 3 sigma", for pipeline validation errors.
+const stepFieldLabel = (field: string) =>
+  field.replace(/^operations\[(\d+)\]\.?/, (_, index) => `Step ${Number(index) + 1} `).trim();
+
+const isFinished = (job: Job) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
 interface DashboardPageProps {
   username: string | null;
+  isAdmin: boolean;
   onLogout: () => void;
 }
 
@@ -29,50 +80,204 @@ interface SelectedEffects {
   [key: string]: string;
 }
 
-// CORRECTED: This list now matches the actual effects in your backend
-const availableEffects = [
-  'sharpen', 'composite', 'tint', 'negate', 'convolve', 'median', 'recomb', 
-  'fractal_noise', 'chromatic_aberration', 'oil_painting', 'holographic', 
-  'edge_enhance_extreme', 'vortex', 'plasma', 'aurora'
-];
+interface SelectedParams {
+  [key: string]: EffectParams;
+}
+
+interface ParamErrors {
+  [key: string]: { [name: string]: string };
+}
+
+interface ValidationErrorResponse {
+  message: string;
+  errors?: { [field: string]: string };
+}
 
-function DashboardPage({ username, onLogout }: DashboardPageProps) {
+function DashboardPage({ username, isAdmin, onLogout }: DashboardPageProps) {
   const [images, setImages] = useState<ImageMetadata[]>([]);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [message, setMessage] = useState<string>('');
   const [activePreviews, setActivePreviews] = useState<ActivePreviews>({});
+  // Unsaved renders from the preview endpoint, as object URLs, per image.
+  const [livePreviews, setLivePreviews] = useState<{ [imageKey: string]: string }>({});
   const [selectedEffects, setSelectedEffects] = useState<SelectedEffects>({});
+  const [operationSchemas, setOperationSchemas] = useState<OperationSchemas>({});
+  const [selectedParams, setSelectedParams] = useState<SelectedParams>({});
+  const [paramErrors, setParamErrors] = useState<ParamErrors>({});
+  const [jobs, setJobs] = useState<JobsByImage>({});
+  const [sortOption, setSortOption] = useState<string>('newest');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalImages, setTotalImages] = useState<number>(0);
+  const [openHistories, setOpenHistories] = useState<{ [key: string]: boolean }>({});
+  const [openMetadata, setOpenMetadata] = useState<{ [key: string]: boolean }>({});
+  const [metadataDefaults, setMetadataDefaults] = useState<OutputMetadataOptions | null>(null);
+  const [showMetadataSettings, setShowMetadataSettings] = useState<boolean>(false);
+  const [pipelines, setPipelines] = useState<{ [key: string]: VersionOperation[] }>({});
+  const [presets, setPresets] = useState<PresetList>({ own: [], shared: [] });
+  const [watermarkList, setWatermarkList] = useState<WatermarkList | null>(null);
+  const [showWatermarks, setShowWatermarks] = useState<boolean>(false);
+  // Per image, whether Download applies the watermark; unset follows the user's default.
+  const [downloadWatermark, setDownloadWatermark] = useState<{ [imageKey: string]: boolean }>({});
+  const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
+  const [batch, setBatch] = useState<Batch | null>(null);
+  // Tag search such as `beach AND (sunset OR night) NOT people`; empty lists everything.
+  const [tagQuery, setTagQuery] = useState<string>('');
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [searchError, setSearchError] = useState<string>('');
+  const [usage, setUsage] = useState<Usage | null>(null);
+
+  const availableEffects = Object.keys(operationSchemas);
 
-  const fetchImages = useCallback(async () => {
+  const fetchUsage = useCallback(async () => {
     try {
-      const response = await api.get<PaginatedImagesResponse>('/images');
+      const response = await api.get<Usage>('/usage');
+      setUsage(response.data);
+    } catch (error) {
+      console.error('Failed to fetch usage:', error);
+    }
+  }, []);
+
+  // Loads the first page, or the page after `cursor` and appends it.
+  const fetchImages = useCallback(async (cursor?: string) => {
+    const { sortBy, order } = SORT_OPTIONS[sortOption];
+    try {
+      const response = await api.get<PaginatedImagesResponse>(tagQuery ? '/images/search' : '/images', {
+        params: { sortBy, order, limit: PAGE_SIZE, cursor, q: tagQuery || undefined },
+      });
+      setSearchError('');
       const initialPreviews: ActivePreviews = {};
-      const initialEffects: SelectedEffects = {};
 
       response.data.images.forEach(img => {
-        const latestVersion = img.processed_versions.length > 0
-          ? img.processed_versions[img.processed_versions.length - 1]
-          : img.unique_filename;
-        initialPreviews[img.unique_filename] = latestVersion;
-        initialEffects[img.unique_filename] = availableEffects[0];
+        initialPreviews[img.unique_filename] = img.current_version || img.unique_filename;
       });
 
-      setImages(response.data.images);
-      setActivePreviews(initialPreviews);
-      setSelectedEffects(initialEffects);
+      if (cursor) {
+        setImages(prev => [...prev, ...response.data.images]);
+        setActivePreviews(prev => ({ ...initialPreviews, ...prev }));
+      } else {
+        setImages(response.data.images);
+        setActivePreviews(initialPreviews);
+      }
+      setNextCursor(response.data.nextCursor);
+      setTotalImages(response.data.totalImages);
+      fetchUsage();
     } catch (error) {
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      if (axiosError.response?.status === 400 && axiosError.response.data.errors?.q) {
+        setSearchError(axiosError.response.data.errors.q);
+        return;
+      }
       console.error('Failed to fetch images:', error);
     }
-  }, []);
+  }, [sortOption, tagQuery, fetchUsage]);
+
+  const searchByTag = (tag: string) => {
+    const query = `"${tag}"`;
+    setSearchInput(query);
+    setTagQuery(query);
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setTagQuery('');
+  };
+
+  const updateTags = (uniqueFilename: string, tags: string[]) => {
+    setImages(prev => prev.map(img => img.unique_filename === uniqueFilename ? { ...img, tags } : img));
+  };
+
+  // Runs a tag edit and applies the tag list the server returns.
+  const editTags = async (uniqueFilename: string, request: () => Promise<{ data: { tags: string[] } }>) => {
+    try {
+      const response = await request();
+      updateTags(uniqueFilename, response.data.tags);
+    } catch (error) {
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      setMessage(axiosError.response?.data?.message || 'Failed to update tags.');
+    }
+  };
 
   useEffect(() => {
     fetchImages();
   }, [fetchImages]);
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) setSelectedFile(e.target.files[0]);
-  };
-  
+  // Reloads a single card once one of its jobs has finished.
+  const refreshImage = useCallback(async (uniqueFilename: string, showVersion?: string) => {
+    try {
+      const response = await api.get<ImageMetadata>(`/images/${uniqueFilename}`);
+      setImages(prev => prev.map(img => img.unique_filename === uniqueFilename ? response.data : img));
+      if (showVersion) {
+        setActivePreviews(prev => ({ ...prev, [uniqueFilename]: showVersion }));
+      }
+      // Jobs and version deletes change storage and processing time.
+      fetchUsage();
+    } catch (error) {
+      console.error('Failed to refresh image:', error);
+    }
+  }, [fetchUsage]);
+
+  // Tagging runs in the background after upload; poll until it settles.
+  useEffect(() => {
+    const pending = images.filter(img => img.tagging_status === 'pending');
+    if (pending.length === 0) return;
+    const timer = setTimeout(() => {
+      pending.forEach(img => refreshImage(img.unique_filename));
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [images, refreshImage]);
+
+  const trackJob = useCallback((job: Job) => {
+    const imageKey = job.image_id.replace(/^image:/, '');
+    setJobs(prev => {
+      const current = prev[imageKey];
+      if (current && current.id !== job.id && current.created_at > job.created_at) {
+        return prev;
+      }
+      return { ...prev, [imageKey]: job };
+    });
+  }, []);
+
+  useEffect(() => {
+    api.get<{ jobs: Job[] }>('/jobs', { params: { limit: 50 } })
+      .then(response => [...response.data.jobs].reverse().forEach(trackJob))
+      .catch(error => console.error('Failed to fetch jobs:', error));
+
+    let events: EventSource;
+    let stopped = false;
+
+    const connect = () => {
+      events = new EventSource(jobEventsUrl());
+      events.addEventListener('job', (event) => {
+        const job: Job = JSON.parse((event as MessageEvent).data);
+        trackJob(job);
+        if (isFinished(job)) {
+          refreshImage(job.image_id.replace(/^image:/, ''), job.output_filename);
+        }
+      });
+      events.onerror = (error) => {
+        console.error('Job event stream error:', error);
+        // The browser gives up for good on a non-200 response, which is what
+        // an expired access token produces; refresh it and reconnect.
+        if (events.readyState === EventSource.CLOSED && !stopped) {
+          refreshAccessToken()
+            .then(() => { if (!stopped) connect(); })
+            .catch(refreshError => console.error('Could not reconnect job events:', refreshError));
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      events.close();
+    };
+  }, [trackJob, refreshImage]);
+
+  useEffect(() => {
+    api.get<OperationSchemas>('/operations')
+      .then(response => setOperationSchemas(response.data))
+      .catch(error => console.error('Failed to fetch operation schemas:', error));
+  }, []);
+
   const handleDelete = async (uniqueFilename: string) => {
     if (!window.confirm("Are you sure you want to delete this image and all its processed versions?")) {
       return;
@@ -86,174 +291,587 @@ function DashboardPage({ username, onLogout }: DashboardPageProps) {
     }
   };
 
-  // --- ADDED MISSING CODE ---
-  const handleUpload = async () => {
-    if (!selectedFile) {
-      setMessage('Please select a file to upload.');
-      return;
-    }
-    const formData = new FormData();
-    formData.append('image', selectedFile);
-    try {
-      await api.post('/images/upload', formData, { headers: { 'Content-Type': 'multipart/form-data' } });
-      setMessage('Image uploaded successfully!');
-      setSelectedFile(null);
-      const fileInput = document.getElementById('file-input') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
-      fetchImages();
-    } catch (error) {
-      console.error('Upload error:', error);
-      setMessage('Image upload failed.');
-    }
-  };
-
   const handleProcess = async (img: ImageMetadata, transformation: string) => {
     try {
       const sourceImage = activePreviews[img.unique_filename];
+      const params = selectedParams[img.unique_filename] || defaultParams(operationSchemas[transformation]);
       const requestBody = {
-        operations: [{ type: transformation }],
+        operations: [{ type: transformation, ...params }],
         source: sourceImage,
       };
-      setMessage(`Applying ${transformation} effect...`);
+      setParamErrors(prev => ({ ...prev, [img.unique_filename]: {} }));
       await api.post(`/images/${img.unique_filename}/process`, requestBody);
-      setTimeout(() => {
-        setMessage('');
-        fetchImages();
-      }, 3000);
+      setMessage('');
     } catch (error) {
       console.error('Processing error:', error);
-      setMessage('An error occurred during processing.');
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      const fieldErrors = axiosError.response?.data?.errors;
+      if (axiosError.response?.status === 400 && fieldErrors) {
+        // Errors are keyed by "operations[0].<param>"; strip the prefix for the form.
+        const errorsByParam: { [name: string]: string } = {};
+        Object.entries(fieldErrors).forEach(([field, fieldError]) => {
+          errorsByParam[field.replace(/^operations\[0\]\.?/, '') || 'type'] = fieldError;
+        });
+        setParamErrors(prev => ({ ...prev, [img.unique_filename]: errorsByParam }));
+        setMessage('Some effect settings are invalid.');
+      } else {
+        setMessage(axiosError.response?.data?.message || 'An error occurred during processing.');
+      }
     }
   };
   
-  const handleDownload = async (filename: string) => {
+  const fetchPresets = useCallback(async () => {
+    try {
+      const response = await api.get<PresetList>('/presets');
+      setPresets(response.data);
+    } catch (error) {
+      console.error('Failed to fetch presets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const fetchWatermarks = useCallback(async () => {
+    try {
+      const response = await api.get<WatermarkList>('/watermarks');
+      setWatermarkList(response.data);
+    } catch (error) {
+      console.error('Failed to fetch watermarks:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWatermarks();
+  }, [fetchWatermarks]);
+
+  const fetchMetadataDefaults = useCallback(async () => {
+    try {
+      const response = await api.get<OutputMetadataOptions>('/metadata/defaults');
+      setMetadataDefaults(response.data);
+    } catch (error) {
+      console.error('Failed to fetch metadata settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMetadataDefaults();
+  }, [fetchMetadataDefaults]);
+
+  const watermarksDownload = (imageKey: string): boolean =>
+    downloadWatermark[imageKey] ?? watermarkList?.defaults.applyToDownloads ?? false;
+
+  const setPipeline = (imageKey: string, steps: VersionOperation[]) => {
+    setPipelines(prev => ({ ...prev, [imageKey]: steps }));
+  };
+
+  const addToPipeline = (img: ImageMetadata) => {
+    const type = selectedEffect(img.unique_filename);
+    const params = selectedParams[img.unique_filename] || defaultParams(operationSchemas[type]);
+    setPipeline(img.unique_filename, [...(pipelines[img.unique_filename] || []), { type, ...params }]);
+  };
+
+  // Queues a job for several operations at once, either listed or as a preset.
+  const processSteps = async (img: ImageMetadata, body: { operations: VersionOperation[] } | { presetId: string }) => {
     try {
-      setMessage("Preparing final image for download...");
-      const currentImage = images.find(img => 
-        img.unique_filename === filename || img.processed_versions.includes(filename)
-      );
-      if (!currentImage) throw new Error("Could not find image metadata.");
-      
-      await api.post(`/images/${currentImage.unique_filename}/process`, {
-        operations: [{ type: 'composite' }],
-        source: filename,
+      await api.post(`/images/${img.unique_filename}/process`, {
+        ...body,
+        source: activePreviews[img.unique_filename],
       });
-      
-      setTimeout(async () => {
-        const updatedImagesResponse = await api.get<PaginatedImagesResponse>('/images');
-        const updatedImage = updatedImagesResponse.data.images.find(img => img.unique_filename === currentImage.unique_filename);
-        
-        if (updatedImage && updatedImage.processed_versions.length > 0) {
-          const finalFile = updatedImage.processed_versions[updatedImage.processed_versions.length - 1];
-          setMessage(`Downloading ${finalFile}...`);
-          const fileResponse = await api.get(`/images/${finalFile}/file`, { responseType: 'blob' });
-          const url = window.URL.createObjectURL(new Blob([fileResponse.data]));
-          const link = document.createElement('a');
-          link.href = url;
-          link.setAttribute('download', 'processed-image.jpg');
-          document.body.appendChild(link);
-          link.click();
-          link.parentNode?.removeChild(link);
-          window.URL.revokeObjectURL(url);
-          setMessage('');
-          fetchImages();
-        }
-      }, 3000);
+      setMessage('');
+    } catch (error) {
+      console.error('Processing error:', error);
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      const fieldErrors = axiosError.response?.data?.errors;
+      if (axiosError.response?.status === 400 && fieldErrors) {
+        setMessage(Object.entries(fieldErrors)
+          .map(([field, fieldError]) => `${stepFieldLabel(field)}: ${fieldError}`)
+          .join('; '));
+      } else {
+        setMessage(axiosError.response?.data?.message || 'An error occurred during processing.');
+      }
+    }
+  };
+
+  const clearLivePreview = (imageKey: string) => {
+    setLivePreviews(prev => {
+      if (!prev[imageKey]) return prev;
+      URL.revokeObjectURL(prev[imageKey]);
+      const next = { ...prev };
+      delete next[imageKey];
+      return next;
+    });
+  };
+
+  // Renders the steps on a downscaled copy of the active image without
+  // saving a version, to compare against it before applying.
+  const previewSteps = async (img: ImageMetadata, body: { operations: VersionOperation[] } | { presetId: string }) => {
+    const imageKey = img.unique_filename;
+    setMessage('Rendering preview...');
+    try {
+      const response = await api.post<Blob>(`/images/${imageKey}/preview`, {
+        ...body,
+        source: activePreviews[imageKey],
+      }, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      setLivePreviews(prev => {
+        if (prev[imageKey]) URL.revokeObjectURL(prev[imageKey]);
+        return { ...prev, [imageKey]: url };
+      });
+      setMessage('');
+    } catch (error) {
+      console.error('Preview error:', error);
+      // With a blob response type the error body arrives as a blob too.
+      const data = (error as AxiosError<Blob>).response?.data;
+      let response: ValidationErrorResponse | null = null;
+      try {
+        response = data ? JSON.parse(await data.text()) : null;
+      } catch {
+        response = null;
+      }
+      setMessage(response?.errors
+        ? Object.entries(response.errors)
+          .map(([field, fieldError]) => `${stepFieldLabel(field)}: ${fieldError}`)
+          .join('; ')
+        : response?.message || 'Preview failed.');
+    }
+  };
 
+  // What the main preview compares against: the live preview's source, or
+  // the version the active one was made from.
+  const compareSource = (img: ImageMetadata): string | undefined => {
+    const active = activePreviews[img.unique_filename];
+    if (livePreviews[img.unique_filename]) return active;
+    return img.processed_versions.find(version => version.filename === active)?.parent;
+  };
+
+  const savePreset = async (img: ImageMetadata, details: PresetDetails) => {
+    try {
+      const response = await api.post<{ preset: Preset; thumbnailError?: string }>('/presets', {
+        ...details,
+        operations: pipelines[img.unique_filename] || [],
+        thumbnailSource: activePreviews[img.unique_filename],
+      });
+      setMessage(response.data.thumbnailError
+        ? `Preset saved without a preview: ${response.data.thumbnailError}`
+        : `Preset "${response.data.preset.name}" saved.`);
+      fetchPresets();
+    } catch (error) {
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      const fieldErrors = axiosError.response?.data?.errors;
+      setMessage(fieldErrors
+        ? Object.entries(fieldErrors).map(([field, fieldError]) => `${field}: ${fieldError}`).join('; ')
+        : 'Failed to save the preset.');
+    }
+  };
+
+  const togglePresetShared = async (preset: Preset) => {
+    try {
+      await api.put(`/presets/${preset.id}`, { shared: !preset.shared });
+      fetchPresets();
+    } catch (error) {
+      console.error('Failed to update preset:', error);
+      setMessage('Failed to update the preset.');
+    }
+  };
+
+  const deletePreset = async (preset: Preset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await api.delete(`/presets/${preset.id}`);
+      fetchPresets();
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      setMessage('Failed to delete the preset.');
+    }
+  };
+
+  const toggleSelected = (imageKey: string) => {
+    setSelectedImages(prev => {
+      const next = new Set(prev);
+      if (next.has(imageKey)) next.delete(imageKey);
+      else next.add(imageKey);
+      return next;
+    });
+  };
+
+  const runBatch = async (action: BatchAction, target: 'selection' | 'search') => {
+    const operations = 'effect' in action
+      ? { operations: [{ type: action.effect, ...defaultParams(operationSchemas[action.effect]) }] }
+      : { presetId: action.presetId };
+    const images = target === 'search'
+      ? { filter: { q: tagQuery } }
+      : { imageIds: Array.from(selectedImages) };
+    try {
+      const response = await api.post<{ message: string; batch: Batch }>('/batches', { ...operations, ...images });
+      setBatch(response.data.batch);
+      setSelectedImages(new Set());
+      setMessage(response.data.message);
+    } catch (error) {
+      const axiosError = error as AxiosError<ValidationErrorResponse>;
+      setMessage(axiosError.response?.data?.message || 'Failed to start the batch.');
+    }
+  };
+
+  const cancelBatch = async () => {
+    if (!batch) return;
+    try {
+      const response = await api.post<Batch>(`/batches/${batch.id}/cancel`);
+      setBatch(response.data);
+    } catch (error) {
+      console.error('Failed to cancel batch:', error);
+      setMessage('Failed to cancel the batch.');
+    }
+  };
+
+  // Poll the running batch for its overall progress; the cards themselves
+  // update from the job event stream.
+  useEffect(() => {
+    if (!batch || batch.status !== 'running') return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get<Batch>(`/batches/${batch.id}`);
+        setBatch(response.data);
+        if (response.data.status !== 'running') fetchImages();
+      } catch (error) {
+        console.error('Failed to fetch batch progress:', error);
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [batch, fetchImages]);
+
+  // Named after the upload, e.g. "holiday-v2.png" for its second version.
+  const downloadName = (img: ImageMetadata, filename: string): string => {
+    const base = img.original_filename.replace(/\.[^.]*$/, '');
+    const extension = filename.slice(filename.lastIndexOf('.'));
+    const index = img.processed_versions.findIndex(version => version.filename === filename);
+    return index === -1 ? `${base}${extension}` : `${base}-v${index + 1}${extension}`;
+  };
+
+  const saveBlob = (data: Blob, name: string) => {
+    const url = window.URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', name);
+    document.body.appendChild(link);
+    link.click();
+    link.parentNode?.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = async (img: ImageMetadata, filename: string) => {
+    try {
+      const response = await api.get(`/images/${filename}/file`, {
+        responseType: 'blob',
+        params: {
+          ...(watermarksDownload(img.unique_filename) ? { watermark: true } : {}),
+          // Originals are stored as uploaded, so the user's stripping
+          // choices are applied when they are downloaded.
+          ...(metadataDefaults?.stripLocation ? { stripLocation: true } : {}),
+          ...(metadataDefaults?.stripPersonal ? { stripPersonal: true } : {}),
+        },
+      });
+      saveBlob(response.data, downloadName(img, filename));
     } catch (error) {
       console.error('Download error:', error);
       setMessage('Download failed.');
     }
   };
 
+  // A ZIP of the original and every version with a manifest.json; without an
+  // image, of the whole library.
+  const handleExport = async (img?: ImageMetadata) => {
+    setMessage(img ? `Exporting ${img.original_filename}...` : 'Exporting your library...');
+    try {
+      const response = await api.get(img ? `/images/${img.unique_filename}/export` : '/export', {
+        responseType: 'blob',
+      });
+      saveBlob(response.data, img ? `${img.original_filename.replace(/\.[^.]*$/, '')}-export.zip` : 'image-library.zip');
+      setMessage('');
+    } catch (error) {
+      console.error('Export error:', error);
+      setMessage('Export failed.');
+    }
+  };
+
+  const toggleHistory = (imageId: string) => {
+    setOpenHistories(prev => ({ ...prev, [imageId]: !prev[imageId] }));
+  };
+
   const setActivePreview = (imageId: string, filename: string) => {
     setActivePreviews(prev => ({ ...prev, [imageId]: filename }));
+    clearLivePreview(imageId);
   };
 
   const handleEffectChange = (imageId: string, effect: string) => {
     setSelectedEffects(prev => ({ ...prev, [imageId]: effect }));
+    setSelectedParams(prev => ({ ...prev, [imageId]: defaultParams(operationSchemas[effect]) }));
+    setParamErrors(prev => ({ ...prev, [imageId]: {} }));
+  };
+
+  const handleParamChange = (imageId: string, name: string, value: unknown) => {
+    setSelectedParams(prev => ({
+      ...prev,
+      [imageId]: {
+        ...(prev[imageId] || defaultParams(operationSchemas[selectedEffect(imageId)])),
+        [name]: value,
+      },
+    }));
   };
 
+  const selectedEffect = (imageId: string) => selectedEffects[imageId] || availableEffects[0];
+
   return (
     <div className="dashboard-container">
       <header className="dashboard-header">
         <h1>Welcome, {username}!</h1>
+        {usage && <UsageMeter usage={usage} />}
+        {isAdmin && <Link to="/admin" className="admin-link">Admin</Link>}
         <button onClick={onLogout}>Logout</button>
       </header>
       <section className="upload-section">
-        <h3>Upload a New Image</h3>
-        <input type="file" id="file-input" onChange={handleFileChange} />
-        <button onClick={handleUpload}>Upload</button>
+        <h3>Upload Images</h3>
+        <UploadPanel onUploaded={() => fetchImages()} />
         {message && <p>{message}</p>}
       </section>
+      <section className="watermark-section">
+        <button className="section-toggle" onClick={() => setShowWatermarks(!showWatermarks)}>
+          {showWatermarks ? 'Hide watermark settings' : 'Watermark settings'}
+        </button>
+        {showWatermarks && watermarkList && (
+          <WatermarkPanel list={watermarkList} schema={operationSchemas.composite} onChanged={fetchWatermarks} />
+        )}
+      </section>
+      <section className="metadata-section">
+        <button className="section-toggle" onClick={() => setShowMetadataSettings(!showMetadataSettings)}>
+          {showMetadataSettings ? 'Hide metadata settings' : 'Metadata settings'}
+        </button>
+        {showMetadataSettings && metadataDefaults && (
+          <MetadataSettings defaults={metadataDefaults} onChanged={fetchMetadataDefaults} />
+        )}
+      </section>
       <section>
-        <h2>My Image Gallery</h2>
+        <div className="gallery-header">
+          <h2>My Image Gallery ({totalImages})</h2>
+          <button className="export-library-btn" onClick={() => handleExport()} disabled={totalImages === 0}>
+            Export library
+          </button>
+          <select value={sortOption} onChange={(e) => setSortOption(e.target.value)}>
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <option key={key} value={key}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <form className="tag-search" onSubmit={(e) => { e.preventDefault(); setTagQuery(searchInput.trim()); }}>
+          <input
+            type="text"
+            placeholder='Search tags, e.g. beach AND (sunset OR night) NOT "people"'
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <button type="submit">Search</button>
+          {tagQuery && <button type="button" onClick={clearSearch}>Clear</button>}
+        </form>
+        {searchError && <p className="error-message">{searchError}</p>}
+        <BatchActionBar
+          selectedCount={selectedImages.size}
+          schemas={operationSchemas}
+          presets={presets}
+          searchQuery={tagQuery}
+          batch={batch}
+          onSelectAll={() => setSelectedImages(new Set(images.map(img => img.unique_filename)))}
+          onClearSelection={() => setSelectedImages(new Set())}
+          onRun={runBatch}
+          onCancel={cancelBatch}
+          onDismiss={() => setBatch(null)}
+        />
         <div className="image-gallery">
           {images.map((img) => (
-            <div key={img.unique_filename} className="image-card">
+            <div
+              key={img.unique_filename}
+              className={`image-card ${selectedImages.has(img.unique_filename) ? 'selected' : ''}`}
+            >
+              <input
+                type="checkbox"
+                className="select-checkbox"
+                checked={selectedImages.has(img.unique_filename)}
+                onChange={() => toggleSelected(img.unique_filename)}
+                aria-label={`Select ${img.original_filename}`}
+              />
               <button className="delete-btn" onClick={() => handleDelete(img.unique_filename)}>
                 &times;
               </button>
               <h4>{img.original_filename}</h4>
-              <div className="tag-container">
-                {img.tags && JSON.parse(img.tags as any).map((tag: string) => (
-                  <span key={tag} className="tag-badge">{tag}</span>
-                ))}
-              </div>
-              <AuthenticatedImage
-                src={`/images/${activePreviews[img.unique_filename]}/file`}
-                alt="Active preview"
-                className="main-preview-area"
+              <TagEditor
+                imageKey={img.unique_filename}
+                tags={img.tags}
+                onTagClick={searchByTag}
+                onAdd={(tag) => editTags(img.unique_filename, () =>
+                  api.post(`/images/${img.unique_filename}/tags`, { tags: [tag] }))}
+                onRemove={(tag) => editTags(img.unique_filename, () =>
+                  api.delete(`/images/${img.unique_filename}/tags/${encodeURIComponent(tag)}`))}
+                onRename={(from, to) => editTags(img.unique_filename, () =>
+                  api.put(`/images/${img.unique_filename}/tags/${encodeURIComponent(from)}`, { name: to }))}
+              >
+                {img.tagging_status === 'pending' && <span className="tag-badge tag-pending">Tagging…</span>}
+                {img.tagging_status === 'failed' && (
+                  <span className="tag-badge tag-failed" title={img.tagging_error}>Tagging failed</span>
+                )}
+              </TagEditor>
+              <ComparePreview
+                beforeFilename={compareSource(img)}
+                afterFilename={activePreviews[img.unique_filename]}
+                afterSrc={livePreviews[img.unique_filename]}
               />
+              {livePreviews[img.unique_filename] && (
+                <div className="live-preview-bar">
+                  <small>Unsaved preview</small>
+                  <button onClick={() => clearLivePreview(img.unique_filename)}>Discard preview</button>
+                </div>
+              )}
               
               {/* --- ADDED MISSING THUMBNAILS JSX --- */}
               <div className="previews-container">
                 <div className="thumbnail-wrapper" onClick={() => setActivePreview(img.unique_filename, img.unique_filename)}>
                   <h5>Original</h5>
                   <AuthenticatedImage
-                    src={`/images/${img.unique_filename}/file`}
+                    filename={img.unique_filename}
                     alt="Original"
                     className={`thumbnail-img ${activePreviews[img.unique_filename] === img.unique_filename ? 'active' : ''}`}
                   />
                 </div>
                 {img.processed_versions.map((version, index) => (
-                  <div className="thumbnail-wrapper" key={version} onClick={() => setActivePreview(img.unique_filename, version)}>
-                    <h5>Effect {index + 1}</h5>
+                  <div
+                    className="thumbnail-wrapper"
+                    key={version.filename}
+                    title={describeOperations(version.operations, operationSchemas)}
+                    onClick={() => setActivePreview(img.unique_filename, version.filename)}
+                  >
+                    <h5>{describeOperations(version.operations, operationSchemas)}</h5>
                     <AuthenticatedImage
-                      src={`/images/${version}/file`}
+                      filename={version.filename}
                       alt={`Processed version ${index + 1}`}
-                      className={`thumbnail-img ${activePreviews[img.unique_filename] === version ? 'active' : ''}`}
+                      className={`thumbnail-img ${activePreviews[img.unique_filename] === version.filename ? 'active' : ''}`}
                     />
                   </div>
                 ))}
               </div>
+              <button className="history-toggle" onClick={() => toggleHistory(img.unique_filename)}>
+                {openHistories[img.unique_filename] ? 'Hide history' : 'Version history'}
+              </button>
+              {openHistories[img.unique_filename] && (
+                <VersionHistory
+                  // Remount when versions change so the tree reloads.
+                  key={img.processed_versions.length}
+                  imageKey={img.unique_filename}
+                  schemas={operationSchemas}
+                  onView={(filename) => setActivePreview(img.unique_filename, filename)}
+                  onChanged={(current) => refreshImage(img.unique_filename, current)}
+                />
+              )}
+              <button
+                className="history-toggle"
+                onClick={() => setOpenMetadata(prev => ({ ...prev, [img.unique_filename]: !prev[img.unique_filename] }))}
+              >
+                {openMetadata[img.unique_filename] ? 'Hide metadata' : 'Metadata'}
+              </button>
+              {openMetadata[img.unique_filename] && <MetadataPanel imageKey={img.unique_filename} />}
               
               <div className="image-actions-title">Apply Effect</div>
               <div className="image-actions">
                 <select 
                   className="effect-dropdown" 
-                  value={selectedEffects[img.unique_filename]}
+                  value={selectedEffect(img.unique_filename)}
                   onChange={(e) => handleEffectChange(img.unique_filename, e.target.value)}
                 >
                   {availableEffects.map(effect => (
                     <option key={effect} value={effect}>
-                      {effect.charAt(0).toUpperCase() + effect.slice(1)}
+                      {operationSchemas[effect].label}
                     </option>
                   ))}
                 </select>
                 <button 
                   className="apply-btn" 
-                  onClick={() => handleProcess(img, selectedEffects[img.unique_filename])}
+                  onClick={() => handleProcess(img, selectedEffect(img.unique_filename))}
                 >
                   Apply
                 </button>
+                <button
+                  className="apply-btn"
+                  onClick={() => previewSteps(img, {
+                    operations: [{
+                      type: selectedEffect(img.unique_filename),
+                      ...(selectedParams[img.unique_filename] || defaultParams(operationSchemas[selectedEffect(img.unique_filename)])),
+                    }],
+                  })}
+                >
+                  Preview
+                </button>
+                <button className="apply-btn" onClick={() => addToPipeline(img)}>
+                  Add to pipeline
+                </button>
+              </div>
+              {jobs[img.unique_filename] && !isFinished(jobs[img.unique_filename]) && (
+                <div className="job-status">
+                  <div className="job-progress">
+                    <div className="job-progress-bar" style={{ width: `${jobs[img.unique_filename].progress}%` }} />
+                  </div>
+                  <small>
+                    {jobs[img.unique_filename].status}
+                    {jobs[img.unique_filename].current_operation && ` · ${jobs[img.unique_filename].current_operation}`}
+                    {` · ${jobs[img.unique_filename].progress}%`}
+                  </small>
+                </div>
+              )}
+              {jobs[img.unique_filename]?.status === 'failed' && (
+                <p className="error-message">Last job failed: {jobs[img.unique_filename].error}</p>
+              )}
+              <EffectParamsForm
+                key={selectedEffect(img.unique_filename)}
+                schema={operationSchemas[selectedEffect(img.unique_filename)]}
+                values={selectedParams[img.unique_filename] || {}}
+                errors={paramErrors[img.unique_filename]}
+                choices={watermarkChoices(watermarkList?.watermarks || [])}
+                onChange={(name, value) => handleParamChange(img.unique_filename, name, value)}
+              />
+              <PipelineBuilder
+                steps={pipelines[img.unique_filename] || []}
+                schemas={operationSchemas}
+                presets={presets}
+                username={username}
+                onChange={(steps) => setPipeline(img.unique_filename, steps)}
+                onApply={() => processSteps(img, { operations: pipelines[img.unique_filename] || [] })}
+                onPreview={() => previewSteps(img, { operations: pipelines[img.unique_filename] || [] })}
+                onSave={(details) => savePreset(img, details)}
+                onApplyPreset={(preset) => processSteps(img, { presetId: preset.id })}
+                onToggleShared={togglePresetShared}
+                onDeletePreset={deletePreset}
+              />
+              <label className="download-watermark">
+                <input
+                  type="checkbox"
+                  checked={watermarksDownload(img.unique_filename)}
+                  onChange={(e) => setDownloadWatermark(prev => ({ ...prev, [img.unique_filename]: e.target.checked }))}
+                />
+                Watermark the download
+              </label>
+              <div className="download-actions">
+                <button className="download-btn" onClick={() => handleDownload(img, activePreviews[img.unique_filename])}>
+                  Download
+                </button>
+                <button className="download-btn export-btn" onClick={() => handleExport(img)}>
+                  Export all versions (ZIP)
+                </button>
               </div>
-              <button className="download-btn" onClick={() => handleDownload(activePreviews[img.unique_filename])}>
-                Download Final Image
-              </button>
             </div>
           ))}
         </div>
+        {nextCursor && (
+          <button className="load-more-btn" onClick={() => fetchImages(nextCursor)}>
+            Load more
+          </button>
+        )}
       </section>
     </div>
   );
@@ -0,0 +1,132 @@
+import React from 'react';
+
+// Mirrors the parameter specs served by GET /operations on the backend.
+export type ParamSpec =
+  | { kind: 'number'; label: string; min: number; max: number; step?: number; default?: number; optional?: boolean }
+  | { kind: 'integer'; label: string; min: number; max: number; default?: number; optional?: boolean }
+  | { kind: 'boolean'; label: string; default: boolean }
+  | { kind: 'color'; label: string; default: string }
+  | { kind: 'enum'; label: string; options: string[]; default: string }
+  | { kind: 'string'; label: string; maxLength: number; default: string }
+  | { kind: 'numberArray'; label: string; minLength: number; maxLength: number; default: number[] };
+
+export interface OperationSchema {
+  label: string;
+  params: { [name: string]: ParamSpec };
+}
+
+export interface OperationSchemas {
+  [type: string]: OperationSchema;
+}
+
+export type EffectParams = { [name: string]: unknown };
+
+// Values a string parameter may take, when the dashboard knows them (e.g.
+// the user's watermark images), shown as a select instead of a text box.
+export interface ParamChoices {
+  [name: string]: { value: string; label: string }[];
+}
+
+export const defaultParams = (schema: OperationSchema | undefined): EffectParams => {
+  const params: EffectParams = {};
+  if (!schema) return params;
+  Object.entries(schema.params).forEach(([name, spec]) => {
+    params[name] = spec.default;
+  });
+  return params;
+};
+
+interface EffectParamsFormProps {
+  schema: OperationSchema | undefined;
+  values: EffectParams;
+  errors?: { [name: string]: string };
+  choices?: ParamChoices;
+  onChange: (name: string, value: unknown) => void;
+}
+
+function EffectParamsForm({ schema, values, errors = {}, choices = {}, onChange }: EffectParamsFormProps) {
+  if (!schema || Object.keys(schema.params).length === 0) {
+    return null;
+  }
+
+  const renderInput = (name: string, spec: ParamSpec) => {
+    const value = values[name] ?? spec.default;
+    switch (spec.kind) {
+      case 'number':
+      case 'integer':
+        return (
+          <input
+            type="number"
+            min={spec.min}
+            max={spec.max}
+            step={spec.kind === 'integer' ? 1 : spec.step ?? 'any'}
+            value={value === undefined ? '' : value as number}
+            placeholder={spec.optional ? 'auto' : undefined}
+            onChange={(e) => onChange(name, isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber)}
+          />
+        );
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => onChange(name, e.target.checked)}
+          />
+        );
+      case 'color':
+        return (
+          <input
+            type="color"
+            value={value as string}
+            onChange={(e) => onChange(name, e.target.value)}
+          />
+        );
+      case 'enum':
+        return (
+          <select value={value as string} onChange={(e) => onChange(name, e.target.value)}>
+            {spec.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'string':
+        return choices[name] ? (
+          <select value={value as string} onChange={(e) => onChange(name, e.target.value)}>
+            {choices[name].map(choice => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            maxLength={spec.maxLength}
+            value={value as string}
+            onChange={(e) => onChange(name, e.target.value)}
+          />
+        );
+      case 'numberArray':
+        // Uncontrolled so partially typed lists like "1, 2," are not reformatted mid-edit.
+        return (
+          <input
+            type="text"
+            defaultValue={(value as number[]).join(', ')}
+            onBlur={(e) => onChange(name, e.target.value.split(',').map(n => parseFloat(n)))}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="effect-params">
+      {Object.entries(schema.params).map(([name, spec]) => (
+        <label key={name} className="effect-param">
+          <span>{spec.label}</span>
+          {renderInput(name, spec)}
+          {errors[name] && <small className="error-message">{errors[name]}</small>}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default EffectParamsForm;
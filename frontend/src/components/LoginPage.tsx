@@ -1,10 +1,11 @@
 import React, { useState, FormEvent } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
+import { AxiosError } from 'axios';
 import api from '../services/api';
 
 // Step 1: Define an interface for the component's props.
 interface LoginPageProps {
-  onLogin: (token: string, username: string) => void;
+  onLogin: (token: string, username: string, refreshToken: string, role: string) => void;
 }
 
 // Step 2: Apply the props interface to the component.
@@ -21,10 +22,16 @@ function LoginPage({ onLogin }: LoginPageProps) {
     setError('');
     try {
       const response = await api.post('/login', { username, password });
-      onLogin(response.data.token, response.data.username);
+      onLogin(response.data.token, response.data.username, response.data.refreshToken, response.data.role);
       navigate('/dashboard');
     } catch (err) {
-      setError('Invalid username or password. Please try again.');
+      const axiosError = err as AxiosError<{ message?: string }>;
+      // Rate limited, locked out or suspended; the server says why.
+      if (axiosError.response?.status === 429 || axiosError.response?.status === 403) {
+        setError(axiosError.response.data?.message || 'Too many attempts. Please try again later.');
+      } else {
+        setError('Invalid username or password. Please try again.');
+      }
       console.error('Login error:', err);
     }
   };
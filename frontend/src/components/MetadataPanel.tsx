@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import api from '../services/api';
+
+type ExifValue = string | number | number[] | null;
+
+interface FileMetadata {
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  orientation: number | null;
+  space: string | null;
+  exif: { [group: string]: { [tag: string]: ExifValue } } | null;
+  location: { latitude: number; longitude: number; altitude: number | null } | null;
+  iptc: { [field: string]: string | string[] } | null;
+  xmp: string | null;
+  icc: { description: string | null; bytes: number } | null;
+}
+
+export interface OutputMetadataOptions {
+  stripLocation: boolean;
+  stripPersonal: boolean;
+  colorProfile: 'keep' | 'srgb';
+}
+
+interface ErrorResponse {
+  message: string;
+  errors?: { [field: string]: string };
+}
+
+const ORIENTATIONS: { [value: number]: string } = {
+  1: 'Upright',
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Mirrored, rotated 180°',
+  5: 'Mirrored, rotated 90° counter-clockwise',
+  6: 'Rotated 90° clockwise',
+  7: 'Mirrored, rotated 90° clockwise',
+  8: 'Rotated 90° counter-clockwise',
+};
+
+const formatValue = (value: ExifValue): string =>
+  Array.isArray(value) ? value.join(' ') : value === null ? '' : String(value);
+
+// "1/250 s" for exposure times under a second.
+const formatExposure = (seconds: number): string =>
+  seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${seconds} s`;
+
+// The handful of fields people look for first, skipping those the file lacks.
+function summarize(metadata: FileMetadata): [string, string][] {
+  const image = metadata.exif?.Image || {};
+  const photo = metadata.exif?.Photo || {};
+  const rows: [string, string | null][] = [
+    ['Camera', [image.Make, image.Model].filter(Boolean).map(v => formatValue(v)).join(' ') || null],
+    ['Lens', photo.LensModel ? formatValue(photo.LensModel) : null],
+    ['Taken', photo.DateTimeOriginal ? formatValue(photo.DateTimeOriginal) : null],
+    ['Exposure', [
+      typeof photo.ExposureTime === 'number' ? formatExposure(photo.ExposureTime) : null,
+      typeof photo.FNumber === 'number' ? `f/${photo.FNumber}` : null,
+      photo.ISOSpeedRatings ? `ISO ${formatValue(photo.ISOSpeedRatings)}` : null,
+      typeof photo.FocalLength === 'number' ? `${photo.FocalLength} mm` : null,
+    ].filter(Boolean).join(' · ') || null],
+    ['Dimensions', metadata.width && metadata.height ? `${metadata.width} × ${metadata.height}` : null],
+    ['Orientation', metadata.orientation ? ORIENTATIONS[metadata.orientation] || String(metadata.orientation) : null],
+    ['Color profile', metadata.icc ? metadata.icc.description || 'Embedded (unnamed)' : 'None (assumed sRGB)'],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== null);
+}
+
+// What an uploaded image's original file records about itself: camera
+// settings, location, captions and its color profile.
+function MetadataPanel({ imageKey }: { imageKey: string }) {
+  const [metadata, setMetadata] = useState<FileMetadata | null>(null);
+  const [error, setError] = useState<string>('');
+  const [showAll, setShowAll] = useState<boolean>(false);
+
+  useEffect(() => {
+    api.get<{ metadata: FileMetadata }>(`/images/${imageKey}/metadata`)
+      .then(response => setMetadata(response.data.metadata))
+      .catch(err => {
+        const axiosError = err as AxiosError<ErrorResponse>;
+        setError(axiosError.response?.data?.message || 'Failed to load the metadata.');
+      });
+  }, [imageKey]);
+
+  if (error) return <p className="error-message">{error}</p>;
+  if (!metadata) return <p className="metadata-panel">Loading metadata...</p>;
+
+  return (
+    <div className="metadata-panel">
+      <dl className="metadata-summary">
+        {summarize(metadata).map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {metadata.location && (
+        <p className="metadata-location">
+          This file records where it was taken ({metadata.location.latitude.toFixed(5)},{' '}
+          {metadata.location.longitude.toFixed(5)}). Strip location before sharing it.
+        </p>
+      )}
+      {metadata.iptc && (
+        <dl className="metadata-summary">
+          {Object.entries(metadata.iptc).map(([field, value]) => (
+            <React.Fragment key={field}>
+              <dt>{field}</dt>
+              <dd>{Array.isArray(value) ? value.join(', ') : value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {(metadata.exif || metadata.xmp) && (
+        <button className="history-toggle" onClick={() => setShowAll(!showAll)}>
+          {showAll ? 'Hide all fields' : 'All fields'}
+        </button>
+      )}
+      {showAll && metadata.exif && (
+        <table className="metadata-table">
+          <tbody>
+            {Object.entries(metadata.exif).flatMap(([group, tags]) =>
+              Object.entries(tags).map(([tag, value]) => (
+                <tr key={`${group}.${tag}`}>
+                  <th>{group}</th>
+                  <td>{tag}</td>
+                  <td>{formatValue(value)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      )}
+      {showAll && metadata.xmp && <pre className="metadata-xmp">{metadata.xmp}</pre>}
+      {!metadata.exif && !metadata.iptc && !metadata.xmp && <small>No EXIF, IPTC or XMP data.</small>}
+    </div>
+  );
+}
+
+interface MetadataSettingsProps {
+  defaults: OutputMetadataOptions;
+  onChanged: () => void;
+}
+
+// How the user's processed versions and downloads are written.
+export function MetadataSettings({ defaults, onChanged }: MetadataSettingsProps) {
+  const [draft, setDraft] = useState<OutputMetadataOptions>(defaults);
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    setDraft(defaults);
+  }, [defaults]);
+
+  const save = async () => {
+    try {
+      await api.put('/metadata/defaults', draft);
+      setMessage('Metadata settings saved.');
+      onChanged();
+    } catch (error) {
+      const axiosError = error as AxiosError<ErrorResponse>;
+      setMessage(axiosError.response?.data?.message || 'Failed to save the metadata settings.');
+    }
+  };
+
+  return (
+    <div className="metadata-settings">
+      <label>
+        <input
+          type="checkbox"
+          checked={draft.stripLocation}
+          onChange={(e) => setDraft({ ...draft, stripLocation: e.target.checked })}
+        />
+        Strip location (GPS) from processed images and downloads
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={draft.stripPersonal}
+          onChange={(e) => setDraft({ ...draft, stripPersonal: e.target.checked })}
+        />
+        Strip personal fields (names, serial numbers, descriptions)
+      </label>
+      <label>
+        Color profile of processed images
+        <select
+          value={draft.colorProfile}
+          onChange={(e) => setDraft({ ...draft, colorProfile: e.target.value as OutputMetadataOptions['colorProfile'] })}
+        >
+          <option value="srgb">Convert to sRGB</option>
+          <option value="keep">Keep the original's profile</option>
+        </select>
+      </label>
+      <button onClick={save}>Save metadata settings</button>
+      {message && <p>{message}</p>}
+    </div>
+  );
+}
+
+export default MetadataPanel;
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import api from '../services/api';
+import { OperationSchemas } from './EffectParamsForm';
+import { VersionOperation, describeOperations } from './VersionHistory';
+
+export interface Preset {
+  id: string;
+  owner: string;
+  name: string;
+  description: string;
+  operations: VersionOperation[];
+  shared: boolean;
+  thumbnail?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PresetList {
+  own: Preset[];
+  shared: Preset[];
+}
+
+export interface PresetDetails {
+  name: string;
+  description: string;
+  shared: boolean;
+}
+
+// Loads the preset's thumbnail with the session's credentials.
+function PresetThumbnail({ preset }: { preset: Preset }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!preset.thumbnail) return;
+    let objectUrl: string | null = null;
+    api.get(`/presets/${preset.id}/thumbnail`, { responseType: 'blob' })
+      .then(response => {
+        objectUrl = URL.createObjectURL(response.data);
+        setSrc(objectUrl);
+      })
+      .catch(error => console.error('Failed to load preset thumbnail:', error));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [preset.id, preset.thumbnail, preset.updated_at]);
+
+  return src ? <img className="preset-thumbnail" src={src} alt={`${preset.name} preview`} /> : null;
+}
+
+interface PipelineBuilderProps {
+  steps: VersionOperation[];
+  schemas: OperationSchemas;
+  presets: PresetList;
+  username: string | null;
+  onChange: (steps: VersionOperation[]) => void;
+  onApply: () => void;
+  onPreview: () => void;
+  onSave: (details: PresetDetails) => Promise<void>;
+  onApplyPreset: (preset: Preset) => void;
+  onToggleShared: (preset: Preset) => void;
+  onDeletePreset: (preset: Preset) => void;
+}
+
+// An ordered list of effects to run in one job, which can be saved as a
+// preset, plus the user's own and shared presets to load or apply.
+function PipelineBuilder({
+  steps, schemas, presets, username, onChange, onApply, onPreview, onSave, onApplyPreset, onToggleShared, onDeletePreset,
+}: PipelineBuilderProps) {
+  const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [details, setDetails] = useState<PresetDetails>({ name: '', description: '', shared: false });
+
+  const allPresets = [...presets.own, ...presets.shared];
+  const selectedPreset = allPresets.find(preset => preset.id === selectedPresetId);
+
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  const submitPreset = async () => {
+    if (!details.name.trim()) return;
+    await onSave(details);
+    setSaving(false);
+    setDetails({ name: '', description: '', shared: false });
+  };
+
+  return (
+    <div className="pipeline-builder">
+      <div className="image-actions-title">Pipeline</div>
+      {steps.length === 0 && <small className="pipeline-empty">Add effects above to build a pipeline.</small>}
+      <ol className="pipeline-steps">
+        {steps.map((step, index) => (
+          <li key={index}>
+            <span>{describeOperations([step], schemas)}</span>
+            <span className="pipeline-step-actions">
+              <button onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">&uarr;</button>
+              <button onClick={() => move(index, 1)} disabled={index === steps.length - 1} aria-label="Move down">&darr;</button>
+              <button onClick={() => onChange(steps.filter((_, i) => i !== index))} aria-label="Remove">&times;</button>
+            </span>
+          </li>
+        ))}
+      </ol>
+      {steps.length > 0 && (
+        <div className="pipeline-actions">
+          <button onClick={onApply}>Apply pipeline</button>
+          <button onClick={onPreview}>Preview</button>
+          <button onClick={() => setSaving(!saving)}>{saving ? 'Cancel' : 'Save as preset'}</button>
+        </div>
+      )}
+      {saving && (
+        <div className="preset-form">
+          <input
+            placeholder="Preset name"
+            value={details.name}
+            onChange={(e) => setDetails({ ...details, name: e.target.value })}
+          />
+          <input
+            placeholder="Description (optional)"
+            value={details.description}
+            onChange={(e) => setDetails({ ...details, description: e.target.value })}
+          />
+          <label>
+            <input
+              type="checkbox"
+              checked={details.shared}
+              onChange={(e) => setDetails({ ...details, shared: e.target.checked })}
+            />
+            Share with other users
+          </label>
+          <button onClick={submitPreset} disabled={!details.name.trim()}>Save</button>
+        </div>
+      )}
+
+      {allPresets.length > 0 && (
+        <div className="preset-picker">
+          <select value={selectedPresetId} onChange={(e) => setSelectedPresetId(e.target.value)}>
+            <option value="">Choose a preset…</option>
+            {presets.own.length > 0 && (
+              <optgroup label="My presets">
+                {presets.own.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </optgroup>
+            )}
+            {presets.shared.length > 0 && (
+              <optgroup label="Shared with me">
+                {presets.shared.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name} ({preset.owner})</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {selectedPreset && (
+            <div className="preset-details">
+              <PresetThumbnail preset={selectedPreset} />
+              <div>
+                <strong>{selectedPreset.name}</strong>
+                {selectedPreset.description && <p>{selectedPreset.description}</p>}
+                <small>{describeOperations(selectedPreset.operations, schemas)}</small>
+                <div className="pipeline-actions">
+                  <button onClick={() => onApplyPreset(selectedPreset)}>Apply</button>
+                  <button onClick={() => onChange(selectedPreset.operations)}>Edit in pipeline</button>
+                  {selectedPreset.owner === username && (
+                    <>
+                      <button onClick={() => onToggleShared(selectedPreset)}>
+                        {selectedPreset.shared ? 'Unshare' : 'Share'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          onDeletePreset(selectedPreset);
+                          setSelectedPresetId('');
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PipelineBuilder;
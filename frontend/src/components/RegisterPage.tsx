@@ -23,9 +23,11 @@ function RegisterPage() {
       setTimeout(() => navigate('/login'), 2000);
     } catch (err) {
       // Type the error object for safer property access
-      const axiosError = err as AxiosError;
+      const axiosError = err as AxiosError<{ message?: string }>;
       if (axiosError.response && axiosError.response.status === 409) {
         setError('Username is already taken.');
+      } else if (axiosError.response?.status === 429) {
+        setError(axiosError.response.data?.message || 'Too many attempts. Please try again later.');
       } else {
         setError('Failed to create account. Please try again.');
       }
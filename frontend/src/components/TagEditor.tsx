@@ -0,0 +1,120 @@
+import React, { useState, useEffect, KeyboardEvent } from 'react';
+import api from '../services/api';
+
+interface TagCount {
+  tag: string;
+  count: number;
+}
+
+interface TagEditorProps {
+  imageKey: string;
+  tags: string[];
+  onTagClick: (tag: string) => void;
+  onAdd: (tag: string) => Promise<void>;
+  onRemove: (tag: string) => Promise<void>;
+  onRename: (from: string, to: string) => Promise<void>;
+  children?: React.ReactNode;
+}
+
+// A card's tag badges. Clicking a badge filters by it; in edit mode badges
+// can be removed or renamed (double-click) and new tags added with
+// suggestions from the user's existing tags.
+function TagEditor({ imageKey, tags, onTagClick, onAdd, onRemove, onRename, children }: TagEditorProps) {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [newTag, setNewTag] = useState<string>('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<TagCount[]>([]);
+  const listId = `tag-suggestions-${imageKey}`;
+
+  useEffect(() => {
+    if (!editing) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get<TagCount[]>('/tags', { params: { prefix: newTag, limit: 10 } });
+        setSuggestions(response.data);
+      } catch (error) {
+        console.error('Failed to fetch tag suggestions:', error);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [editing, newTag]);
+
+  const submitNewTag = async () => {
+    if (!newTag.trim()) return;
+    await onAdd(newTag);
+    setNewTag('');
+  };
+
+  const submitRename = async () => {
+    if (renaming && renameValue.trim() && renameValue !== renaming) {
+      await onRename(renaming, renameValue);
+    }
+    setRenaming(null);
+  };
+
+  const onRenameKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') submitRename();
+    if (e.key === 'Escape') setRenaming(null);
+  };
+
+  return (
+    <div className="tag-container">
+      {tags.map(tag => renaming === tag ? (
+        <input
+          key={tag}
+          className="tag-input"
+          value={renameValue}
+          autoFocus
+          onChange={(e) => setRenameValue(e.target.value)}
+          onKeyDown={onRenameKey}
+          onBlur={submitRename}
+        />
+      ) : (
+        <span
+          key={tag}
+          className="tag-badge tag-clickable"
+          title={editing ? 'Double-click to rename' : `Show images tagged "${tag}"`}
+          onClick={() => !editing && onTagClick(tag)}
+          onDoubleClick={() => {
+            if (!editing) return;
+            setRenaming(tag);
+            setRenameValue(tag);
+          }}
+        >
+          {tag}
+          {editing && (
+            <button className="tag-remove" onClick={() => onRemove(tag)} aria-label={`Remove ${tag}`}>
+              &times;
+            </button>
+          )}
+        </span>
+      ))}
+      {editing && (
+        <>
+          <input
+            className="tag-input"
+            placeholder="Add tag"
+            list={listId}
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitNewTag()}
+          />
+          <datalist id={listId}>
+            {suggestions
+              .filter(suggestion => !tags.includes(suggestion.tag))
+              .map(suggestion => (
+                <option key={suggestion.tag} value={suggestion.tag}>{suggestion.count}</option>
+              ))}
+          </datalist>
+        </>
+      )}
+      {children}
+      <button className="tag-edit-toggle" onClick={() => setEditing(!editing)}>
+        {editing ? 'Done' : 'Edit tags'}
+      </button>
+    </div>
+  );
+}
+
+export default TagEditor;
@@ -0,0 +1,117 @@
+import React, { useState, ChangeEvent, DragEvent } from 'react';
+import { AxiosError } from 'axios';
+import api from '../services/api';
+
+interface UploadResult {
+  filename: string;
+  status: 'uploaded' | 'failed';
+  imageId?: string;
+  error?: string;
+}
+
+interface UploadResponse {
+  message: string;
+  results?: UploadResult[];
+}
+
+interface UploadPanelProps {
+  onUploaded: () => void;
+}
+
+// Picks or drops any number of images and ZIP archives, uploads them in one
+// request and lists how each file fared.
+function UploadPanel({ onUploaded }: UploadPanelProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [uploading, setUploading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [results, setResults] = useState<UploadResult[]>([]);
+
+  const addFiles = (list: FileList | null) => {
+    if (list && list.length > 0) setFiles(prev => [...prev, ...Array.from(list)]);
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleUpload = async () => {
+    if (files.length === 0) {
+      setMessage('Please select a file to upload.');
+      return;
+    }
+    const formData = new FormData();
+    files.forEach(file => formData.append('images', file));
+    setUploading(true);
+    try {
+      const response = await api.post<UploadResponse>('/images/upload', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      setMessage(response.data.message);
+      setResults(response.data.results || []);
+      setFiles([]);
+      onUploaded();
+    } catch (error) {
+      console.error('Upload error:', error);
+      const axiosError = error as AxiosError<UploadResponse>;
+      setMessage(axiosError.response?.data?.message || 'Image upload failed.');
+      setResults(axiosError.response?.data?.results || []);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="upload-panel">
+      <div
+        className={`drop-zone ${dragging ? 'dragging' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <p>Drag images or ZIP archives here, or</p>
+        <input type="file" id="file-input" multiple accept="image/*,.zip" onChange={handleFileChange} />
+      </div>
+      {files.length > 0 && (
+        <ul className="upload-queue">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`}>
+              {file.name}
+              <button
+                onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                aria-label={`Remove ${file.name}`}
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button onClick={handleUpload} disabled={uploading}>
+        {uploading ? 'Uploading…' : `Upload${files.length > 1 ? ` ${files.length} files` : ''}`}
+      </button>
+      {message && <p>{message}</p>}
+      {results.length > 0 && (
+        <ul className="upload-results">
+          {results.map((result, index) => (
+            <li key={index} className={result.status}>
+              {result.filename}: {result.status === 'uploaded' ? 'uploaded' : result.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default UploadPanel;
@@ -0,0 +1,65 @@
+import React from 'react';
+
+export interface Usage {
+  plan: string;
+  limits: {
+    storageBytes: number;
+    images: number;
+    cpuSecondsPerDay: number;
+  };
+  storageBytes: number;
+  images: number;
+  cpuSecondsToday: number;
+  processingResetsAt: string;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const formatSeconds = (seconds: number): string =>
+  seconds < 60 ? `${Math.round(seconds)}s` : `${Math.round(seconds / 60)}m`;
+
+interface MeterProps {
+  label: string;
+  used: number;
+  limit: number;
+  format: (value: number) => string;
+  title?: string;
+}
+
+function Meter({ label, used, limit, format, title }: MeterProps) {
+  const share = limit > 0 ? Math.min(1, used / limit) : 1;
+  const level = share >= 1 ? 'full' : share >= 0.8 ? 'high' : '';
+  return (
+    <div className={`usage-meter ${level}`} title={title}>
+      <small>{label} {format(used)} / {format(limit)}</small>
+      <div className="usage-bar">
+        <div className="usage-bar-fill" style={{ width: `${share * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+// How much of the user's plan is used: storage, images and today's
+// processing time.
+function UsageMeter({ usage }: { usage: Usage }) {
+  return (
+    <div className="usage-meters" aria-label={`Usage on the ${usage.plan} plan`}>
+      <span className="usage-plan">{usage.plan}</span>
+      <Meter label="Storage" used={usage.storageBytes} limit={usage.limits.storageBytes} format={formatBytes} />
+      <Meter label="Images" used={usage.images} limit={usage.limits.images} format={String} />
+      <Meter
+        label="Processing today"
+        used={usage.cpuSecondsToday}
+        limit={usage.limits.cpuSecondsPerDay}
+        format={formatSeconds}
+        title={`Resets at ${new Date(usage.processingResetsAt).toLocaleString()}`}
+      />
+    </div>
+  );
+}
+
+export default UsageMeter;
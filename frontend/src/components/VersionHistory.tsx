@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AxiosError } from 'axios';
+import api from '../services/api';
+import { OperationSchemas } from './EffectParamsForm';
+
+export interface VersionOperation {
+  type: string;
+  [param: string]: unknown;
+}
+
+export interface Version {
+  filename: string;
+  parent: string;
+  operations: VersionOperation[];
+  job_id?: string;
+  created_at?: number;
+  width?: number;
+  height?: number;
+  size?: number;
+  format?: string;
+}
+
+interface LineageNode extends Partial<Version> {
+  filename: string;
+  original: boolean;
+  current: boolean;
+  children: LineageNode[];
+}
+
+interface VersionsResponse {
+  current: string;
+  lineage: LineageNode;
+}
+
+interface DeleteConflictResponse {
+  message: string;
+  dependents?: string[];
+}
+
+// "Resize + Sepia"; versions from before lineage was recorded have no operations.
+export const describeOperations = (operations: VersionOperation[], schemas: OperationSchemas): string =>
+  operations.length > 0
+    ? operations.map(op => schemas[op.type]?.label || op.type).join(' + ')
+    : 'Unknown effect';
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Parameters of an operation other than its type, e.g. "width: 800, height: 600".
+const describeParams = (op: VersionOperation): string =>
+  Object.entries(op)
+    .filter(([name]) => name !== 'type')
+    .map(([name, value]) => `${name}: ${Array.isArray(value) ? value.join(' ') : String(value)}`)
+    .join(', ');
+
+interface VersionHistoryProps {
+  imageKey: string;
+  schemas: OperationSchemas;
+  onView: (filename: string) => void;
+  // Called after a revert or delete so the card can reload the image.
+  onChanged: (current: string) => void;
+}
+
+// The image's versions as a tree, with what produced each one and controls
+// to view, revert to or delete it.
+function VersionHistory({ imageKey, schemas, onView, onChanged }: VersionHistoryProps) {
+  const [lineage, setLineage] = useState<LineageNode | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const load = useCallback(async () => {
+    try {
+      const response = await api.get<VersionsResponse>(`/images/${imageKey}/versions`);
+      setLineage(response.data.lineage);
+      setError('');
+    } catch (err) {
+      console.error('Failed to load version history:', err);
+      setError('Failed to load version history.');
+    }
+  }, [imageKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revert = async (filename: string) => {
+    try {
+      await api.post(`/images/${imageKey}/versions/${filename}/revert`);
+      await load();
+      onChanged(filename);
+    } catch (err) {
+      console.error('Failed to revert:', err);
+      setError('Failed to revert to that version.');
+    }
+  };
+
+  const remove = async (node: LineageNode) => {
+    if (!window.confirm('Delete this version?')) return;
+    const url = `/images/${imageKey}/versions/${node.filename}`;
+    try {
+      try {
+        await api.delete(url);
+      } catch (err) {
+        const axiosError = err as AxiosError<DeleteConflictResponse>;
+        const dependents = axiosError.response?.data?.dependents;
+        if (axiosError.response?.status !== 409 || !dependents) throw err;
+        if (!window.confirm(`${dependents.length} other version(s) were made from this one. Delete them too?`)) {
+          return;
+        }
+        await api.delete(url, { params: { cascade: true } });
+      }
+      const response = await api.get<VersionsResponse>(`/images/${imageKey}/versions`);
+      setLineage(response.data.lineage);
+      onChanged(response.data.current);
+    } catch (err) {
+      const axiosError = err as AxiosError<DeleteConflictResponse>;
+      setError(axiosError.response?.data?.message || 'Failed to delete the version.');
+    }
+  };
+
+  const renderNode = (node: LineageNode) => (
+    <li key={node.filename}>
+      <div className={`version-node ${node.current ? 'current' : ''}`}>
+        <span className="version-label" onClick={() => onView(node.filename)}>
+          {node.original ? 'Original' : describeOperations(node.operations || [], schemas)}
+        </span>
+        <small className="version-meta">
+          {[
+            node.width && node.height ? `${node.width}×${node.height}` : null,
+            node.size ? formatBytes(node.size) : null,
+            node.created_at ? new Date(node.created_at).toLocaleString() : null,
+          ].filter(Boolean).join(' · ')}
+        </small>
+        {node.operations && node.operations.length > 0 && (
+          <small className="version-params">
+            {node.operations.map(op => describeParams(op)).filter(Boolean).join('; ')}
+          </small>
+        )}
+        <span className="version-actions">
+          {node.current ? <em>current</em> : <button onClick={() => revert(node.filename)}>Revert</button>}
+          {!node.original && <button onClick={() => remove(node)}>Delete</button>}
+        </span>
+      </div>
+      {node.children.length > 0 && <ul>{node.children.map(renderNode)}</ul>}
+    </li>
+  );
+
+  return (
+    <div className="version-history">
+      {error && <p className="error-message">{error}</p>}
+      {lineage && <ul>{renderNode(lineage)}</ul>}
+    </div>
+  );
+}
+
+export default VersionHistory;
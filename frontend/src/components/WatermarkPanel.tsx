@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import api from '../services/api';
+import EffectParamsForm, { EffectParams, OperationSchema, ParamChoices } from './EffectParamsForm';
+
+export interface Watermark {
+  id: string;
+  owner: string;
+  name: string;
+  width: number;
+  height: number;
+  created_at: number;
+}
+
+export interface WatermarkDefaults {
+  operation: EffectParams;
+  applyToDownloads: boolean;
+}
+
+export interface WatermarkList {
+  watermarks: Watermark[];
+  defaults: WatermarkDefaults;
+}
+
+interface ErrorResponse {
+  message: string;
+  errors?: { [field: string]: string };
+}
+
+// Options for a watermark step's image: the built-in one or an uploaded one.
+export const watermarkChoices = (watermarks: Watermark[]): ParamChoices => ({
+  watermarkId: [
+    { value: '', label: 'Built-in' },
+    ...watermarks.map(watermark => ({ value: watermark.id, label: watermark.name })),
+  ],
+});
+
+// Loads the watermark image with the session's credentials.
+function WatermarkThumbnail({ watermark }: { watermark: Watermark }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    api.get(`/watermarks/${watermark.id}/file`, { responseType: 'blob' })
+      .then(response => {
+        objectUrl = URL.createObjectURL(response.data);
+        setSrc(objectUrl);
+      })
+      .catch(error => console.error('Failed to load watermark:', error));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [watermark.id]);
+
+  return src ? <img className="watermark-thumbnail" src={src} alt={watermark.name} /> : null;
+}
+
+interface WatermarkPanelProps {
+  list: WatermarkList;
+  schema: OperationSchema | undefined;
+  onChanged: () => void;
+}
+
+// The user's watermark images and their default watermark settings.
+function WatermarkPanel({ list, schema, onChanged }: WatermarkPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState<string>('');
+  const [draft, setDraft] = useState<WatermarkDefaults>(list.defaults);
+  const [errors, setErrors] = useState<{ [field: string]: string }>({});
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    setDraft(list.defaults);
+  }, [list.defaults]);
+
+  const upload = async () => {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append('image', file);
+    if (name.trim()) formData.append('name', name.trim());
+    try {
+      await api.post('/watermarks', formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+      setFile(null);
+      setName('');
+      setMessage('Watermark uploaded.');
+      onChanged();
+    } catch (error) {
+      const axiosError = error as AxiosError<ErrorResponse>;
+      setMessage(axiosError.response?.data?.message || 'Failed to upload the watermark.');
+    }
+  };
+
+  const remove = async (watermark: Watermark) => {
+    if (!window.confirm(`Delete the watermark "${watermark.name}"? Presets using it will stop working.`)) return;
+    try {
+      await api.delete(`/watermarks/${watermark.id}`);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to delete watermark:', error);
+      setMessage('Failed to delete the watermark.');
+    }
+  };
+
+  const saveDefaults = async () => {
+    const { type, ...operation } = draft.operation;
+    try {
+      await api.put('/watermarks/defaults', { operation, applyToDownloads: draft.applyToDownloads });
+      setErrors({});
+      setMessage('Default watermark saved.');
+      onChanged();
+    } catch (error) {
+      const axiosError = error as AxiosError<ErrorResponse>;
+      const fieldErrors: { [field: string]: string } = {};
+      Object.entries(axiosError.response?.data?.errors || {}).forEach(([field, fieldError]) => {
+        fieldErrors[field.replace(/^operation\./, '')] = fieldError;
+      });
+      setErrors(fieldErrors);
+      setMessage(axiosError.response?.data?.message || 'Failed to save the watermark settings.');
+    }
+  };
+
+  return (
+    <div className="watermark-panel">
+      <div className="watermark-list">
+        {list.watermarks.map(watermark => (
+          <div key={watermark.id} className="watermark-item">
+            <WatermarkThumbnail watermark={watermark} />
+            <small>{watermark.name}</small>
+            <button onClick={() => remove(watermark)} aria-label={`Delete ${watermark.name}`}>&times;</button>
+          </div>
+        ))}
+      </div>
+      <div className="watermark-upload">
+        <input type="file" accept="image/*" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+        <input placeholder="Name (optional)" value={name} onChange={(e) => setName(e.target.value)} />
+        <button onClick={upload} disabled={!file}>Upload watermark</button>
+      </div>
+
+      <div className="image-actions-title">Default watermark</div>
+      <EffectParamsForm
+        schema={schema}
+        values={draft.operation}
+        errors={errors}
+        choices={watermarkChoices(list.watermarks)}
+        onChange={(param, value) => setDraft({ ...draft, operation: { ...draft.operation, [param]: value } })}
+      />
+      <label className="watermark-downloads">
+        <input
+          type="checkbox"
+          checked={draft.applyToDownloads}
+          onChange={(e) => setDraft({ ...draft, applyToDownloads: e.target.checked })}
+        />
+        Apply to downloads by default
+      </label>
+      <button onClick={saveDefaults}>Save default</button>
+      {message && <p>{message}</p>}
+    </div>
+  );
+}
+
+export default WatermarkPanel;
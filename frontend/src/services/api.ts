@@ -1,4 +1,4 @@
-import axios, { InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 // The base URL for your backend API
 export const API_URL: string = 'http://localhost:3001';
@@ -21,4 +21,69 @@ api.interceptors.request.use(
   }
 );
 
-export default api;
\ No newline at end of file
+interface TokenResponse {
+  token: string;
+  refreshToken: string;
+  username: string;
+  role: string;
+}
+
+// Shared so that several requests failing at once trigger a single refresh.
+let refreshInFlight: Promise<string> | null = null;
+
+export const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('username');
+  localStorage.removeItem('role');
+};
+
+// Exchanges the stored refresh token for a new access token (and a new
+// refresh token, since each one can only be used once).
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshInFlight) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshInFlight = (refreshToken
+      ? axios.post<TokenResponse>(`${API_URL}/refresh`, { refreshToken })
+          .then(response => {
+            localStorage.setItem('token', response.data.token);
+            localStorage.setItem('refreshToken', response.data.refreshToken);
+            localStorage.setItem('role', response.data.role);
+            return response.data.token;
+          })
+      : Promise.reject(new Error('No refresh token stored.'))
+    ).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    if (error.response?.status !== 401 || !config || config._retried || config.url === '/login') {
+      return Promise.reject(error);
+    }
+
+    config._retried = true;
+    try {
+      const token = await refreshAccessToken();
+      config.headers.Authorization = `Bearer ${token}`;
+      return api(config);
+    } catch (refreshError) {
+      clearSession();
+      window.location.assign('/login');
+      return Promise.reject(error);
+    }
+  }
+);
+
+// EventSource cannot set headers, so the token travels in the query string.
+export const jobEventsUrl = (): string =>
+  `${API_URL}/jobs/events?token=${encodeURIComponent(localStorage.getItem('token') || '')}`;
+
+export default api;